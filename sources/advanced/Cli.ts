@@ -1,14 +1,34 @@
+import {createHash}                        from 'crypto';
+import {constants}                         from 'os';
+import {createInterface}                   from 'readline';
 import {Readable, Writable}                from 'stream';
 
-import {HELP_COMMAND_INDEX}                from '../constants';
-import {CliBuilder, CommandBuilder}                        from '../core';
+import {formatCompletionScript}         from '../completion';
+import {Configuration, ConfigurationSource, resolveConfiguration} from '../configuration';
+import {BINDING_REGEX, HELP_COMMAND_INDEX, MACHINE_FORMAT_VERSION} from '../constants';
+import {CliBuilder, CommandBuilder, NoLimits, OptDefinition, PositionalDefinition, RunState, StateMachine} from '../core';
+import {ErrorClass, ErrorMeta, formatJsonError, UnknownSyntaxError} from '../errors';
+import {describeState, Explanation, makeExplanationTracer} from '../explain';
 import {formatMarkdownish, ColorFormat, richFormat, textFormat}                 from '../format';
+import {lintCommands, LintDiagnostic, LintedCommand} from '../lint';
+import {formatCommandManpage, formatIndexManpage, Manpage} from '../manpage';
+import {formatMarkdownPages, MarkdownPage}  from '../markdown';
+import {CliSchema}                         from '../schema';
+import {tokenizeShellLine}                 from '../tokenizer';
 
-import {CommandClass, Command, Definition, CommandOption} from './Command';
+import {CommandClass, Command, Definition, CommandOption, Usage, getFallback} from './Command';
 import {HelpCommand}                       from './HelpCommand';
 
 const errorCommandSymbol = Symbol(`clipanion/errorCommand`);
 
+// Tokens standing for the positionals that the user will be prompted for;
+// they start with a control character so that they can't be mistaken for
+// paths or options
+const promptPlaceholder = `\u0002clipanion/prompt/`;
+
+// Enables the JSON error output when passed before the command line
+const jsonErrorsFlag = `--clipanion=json-errors`;
+
 /**
  * The base context of the CLI.
  *
@@ -16,20 +36,22 @@ const errorCommandSymbol = Symbol(`clipanion/errorCommand`);
  */
 export type BaseContext = {
     /**
-     * The input stream of the CLI.
+     * The input stream of the CLI. Prompts and the line editing of the shell
+     * are only enabled when it's a TTY, as reported by `isTTY`.
      *
      * @default
      * process.stdin
      */
-    stdin: Readable;
+    stdin: Readable & {isTTY?: boolean};
 
     /**
-     * The output stream of the CLI.
+     * The output stream of the CLI. Prompts and the line editing of the shell
+     * are only enabled when it's a TTY, as reported by `isTTY`.
      *
      * @default
      * process.stdout
      */
-    stdout: Writable;
+    stdout: Writable & {isTTY?: boolean};
 
     /**
      * The error stream of the CLI.
@@ -38,12 +60,103 @@ export type BaseContext = {
      * process.stderr
      */
     stderr: Writable;
+
+    /**
+     * The environment variables used by the options declaring an `env`
+     * fallback. Kept separate from `process.env` so that it can be mocked.
+     *
+     * @default
+     * process.env
+     */
+    env?: Record<string, string | undefined>;
+
+    /**
+     * The directory from which the configuration files are looked up.
+     *
+     * @default
+     * process.cwd()
+     */
+    cwd?: string;
+
+    /**
+     * A signal aborted when the command is asked to stop (for instance when
+     * `runExit` receives a SIGINT or a SIGTERM), so that it gets a chance to
+     * clean up after itself. Errors thrown once it has been aborted don't
+     * print any trace.
+     */
+    signal?: AbortSignal;
 };
 
+/**
+ * A function wrapping the execution of every command. It receives the
+ * command (with its options already populated and validated) and a `next`
+ * function that runs the rest of the chain, and returns the exit code.
+ *
+ * @example
+ * cli.use(async (command, next) => {
+ *     const start = Date.now();
+ *     const exitCode = await next();
+ *     command.context.stderr.write(`Took ${Date.now() - start}ms\n`);
+ *     return exitCode;
+ * });
+ */
+export type Middleware<Context extends BaseContext = BaseContext> = (command: Command<Context>, next: () => Promise<number>) => Promise<number>;
+
 export type CliContext<Context extends BaseContext> = {
     commandClass: CommandClass<Context>;
 };
 
+/**
+ * A JSON-serializable description of a command, from which the Cli can
+ * parse its command line without having to load its implementation.
+ */
+export type CommandManifest = {
+    paths: string[][];
+    usage?: Usage;
+    options: OptDefinition[];
+    /**
+     * The positional arguments of the command. The older manifests don't
+     * list them, in which case the command is assumed not to accept any (and
+     * will be reported as out of date once loaded if it does).
+     */
+    positionals?: PositionalDefinition[];
+    arity: {
+        leading: string[];
+        /**
+         * The names of the optional positionals, or `null` if the command
+         * accepts an unlimited number of them.
+         */
+        extra: string[] | null;
+        trailing: string[];
+        proxy: boolean;
+    };
+};
+
+export type LazyCommand<Context extends BaseContext> = CommandManifest & {
+    load: () => Promise<CommandClass<Context> | {default: CommandClass<Context>}>;
+};
+
+/**
+ * A compiled state machine along with the version of the commands it has
+ * been compiled from. The contexts aren't part of it, since they're derived
+ * from the registered commands (whose indices match the ones in the machine).
+ */
+export type SerializedMachine = {
+    version: string;
+    machine: StateMachine;
+};
+
+type Registration<Context extends BaseContext> = {
+    index: number,
+    builder: CommandBuilder<CliContext<Context>>,
+    context: CliContext<Context>,
+    specs: Map<string, CommandOption<unknown>>,
+    keys: Map<OptDefinition, string>,
+    positionalKeys: Map<string, string>,
+    positionalDefinitionKeys: Map<PositionalDefinition, string>,
+    load?: LazyCommand<Context>['load'],
+};
+
 export type CliOptions = Readonly<{
     /**
      * The label of the binary.
@@ -73,14 +186,99 @@ export type CliOptions = Readonly<{
      * process.env.FORCE_COLOR ?? process.stdout.isTTY
      */
     enableColors: boolean,
+
+    /**
+     * The sources from which the options not set on the command line (nor
+     * through their environment variable) read their values. The first
+     * sources take precedence over the next ones.
+     *
+     * @default
+     * []
+     */
+    configuration?: ConfigurationSource[],
+
+    /**
+     * If `true`, the Cli will prompt for the missing required positional
+     * arguments instead of failing, as long as both `stdin` and `stdout` are
+     * TTYs.
+     *
+     * @default
+     * false
+     */
+    enablePrompts?: boolean,
+
+    /**
+     * If `true`, registering a command fails when `lint` reports a problem
+     * involving it.
+     *
+     * @default
+     * false
+     */
+    enableStrictRegistration?: boolean,
+
+    /**
+     * The exit codes returned by `run` when an error is thrown, as pairs of
+     * error class and exit code. The first pair matching the error (including
+     * through inheritance) wins, and the errors not matching any return 1.
+     * The `exitCode` set in the `clipanion` metadata of an error takes
+     * precedence over this mapping.
+     *
+     * @example
+     * [[UsageError, 64], [UnknownSyntaxError, 2]]
+     *
+     * @default
+     * []
+     */
+    exitCodes?: [ErrorClass, number][],
+
+    /**
+     * If `true`, the errors are printed on `stderr` as JSON objects (see
+     * `JsonError`) rather than as human-readable text. It can also be
+     * enabled for a single run by prefixing the command line with
+     * `--clipanion=json-errors`.
+     *
+     * @default
+     * false
+     */
+    enableJsonErrors?: boolean,
+
+    /**
+     * If `true`, the errors are printed on `stdout` (as they used to be)
+     * rather than on `stderr`.
+     *
+     * @default
+     * false
+     */
+    enableStdoutErrors?: boolean,
 }>;
 
 export type MiniCli<Context extends BaseContext> = CliOptions & {
+    /**
+     * Returns the candidates that a shell should offer for the word under the cursor.
+     *
+     * @param words The words currently typed on the command line, starting with the binary name
+     * @param cword The index of the word under the cursor
+     */
+    completions(words: string[], cword: number): Promise<string[]>;
+
+    /**
+     * Returns a script that enables the shell completion for the binary once sourced.
+     *
+     * @param shell The shell the script is meant for (`bash`, `zsh`, or `fish`)
+     */
+    completionScript(shell: string): string;
+
     /**
      * Returns an Array representing the definitions of all registered commands.
      */
     definitions(): Definition[];
 
+    /**
+     * Returns a structured trace of how a command line gets parsed: the
+     * candidates alive after each argument, and why the selected one won.
+     */
+    explain(input: string[]): Explanation;
+
     /**
      * Formats errors using colors.
      *
@@ -89,6 +287,23 @@ export type MiniCli<Context extends BaseContext> = CliOptions & {
      */
     error(error: Error, opts?: {command?: Command<Context> | null}): string;
 
+    /**
+     * Returns the man pages of the binary: an index page listing all
+     * commands, followed by one page per command.
+     */
+    manpage(): Manpage[];
+
+    /**
+     * Returns the Markdown documentation of the binary: an index page
+     * listing all commands, followed by one page per command.
+     */
+    markdown(): MarkdownPage[];
+
+    /**
+     * Returns a JSON-serializable description of all registered commands.
+     */
+    schema(): CliSchema;
+
     /**
      * Compiles a command and its arguments using the `CommandBuilder`.
      *
@@ -108,6 +323,16 @@ export type MiniCli<Context extends BaseContext> = CliOptions & {
      */
     run(input: string[], context?: Partial<Context>): Promise<number>;
 
+    /**
+     * Starts an interactive session running each line read from `stdin` as a command.
+     *
+     * @param context Overrides the Context of the main `Cli` instance
+     * @param opts.prompt The prompt displayed before each line. Defaults to the binary name followed by `> `.
+     *
+     * @returns The exit code of the last command
+     */
+    repl(context?: Partial<Context>, opts?: {prompt?: string}): Promise<number>;
+
     /**
      * Returns the usage of a command.
      *
@@ -130,6 +355,71 @@ function getDefaultColorSettings() {
     return false;
 }
 
+function normalizeError(error: unknown) {
+    if (error instanceof Error)
+        return error;
+
+    return new Error(`Execution failed with a non-error rejection (rejected value: ${JSON.stringify(error)})`);
+}
+
+/**
+ * Returns the metadata attached to the errors by Clipanion (and by the
+ * commands following the same convention), if any.
+ */
+function getErrorMeta(error: unknown) {
+    if (typeof error !== `object` || error === null)
+        return undefined;
+
+    return (error as {clipanion?: ErrorMeta}).clipanion;
+}
+
+function getSignalExitCode(signal: NodeJS.Signals) {
+    return 128 + constants.signals[signal];
+}
+
+/**
+ * Returns the exit code a shell would report for a process killed by the
+ * signal that caused the abort (130 if the reason isn't a signal name).
+ */
+function getAbortExitCode(signal: AbortSignal) {
+    // Older Node versions ignore the reason passed to `abort`
+    const {reason} = signal as AbortSignal & {reason?: unknown};
+
+    return typeof reason === `string` && Object.prototype.hasOwnProperty.call(constants.signals, reason)
+        ? getSignalExitCode(reason as NodeJS.Signals)
+        : getSignalExitCode(`SIGINT`);
+}
+
+function describePositional({name, kind, required}: PositionalDefinition) {
+    return typeof required !== `undefined` && required > 0
+        ? `${name} (${kind}, at least ${required})`
+        : `${name} (${kind})`;
+}
+
+/**
+ * Describes how the options and positionals declared by a manifest differ
+ * from those of the command once loaded, or returns `null` if they match.
+ */
+function getManifestMismatch(manifest: CommandBuilder<any>, loaded: CommandBuilder<any>) {
+    const manifestNames = manifest.options.map(({names}) => names.join(`,`));
+    const loadedNames = loaded.options.map(({names}) => names.join(`,`));
+
+    if (manifestNames.join(` `) !== loadedNames.join(` `))
+        return `expected options ${JSON.stringify(loadedNames)}, got ${JSON.stringify(manifestNames)}`;
+
+    for (let t = 0; t < loaded.options.length; ++t)
+        if (manifest.options[t].arity !== loaded.options[t].arity)
+            return `expected ${loadedNames[t]} to take ${loaded.options[t].arity} arguments, got ${manifest.options[t].arity}`;
+
+    const manifestPositionals = manifest.positionals.map(describePositional);
+    const loadedPositionals = loaded.positionals.map(describePositional);
+
+    if (manifestPositionals.join(` `) !== loadedPositionals.join(` `))
+        return `expected positionals ${JSON.stringify(loadedPositionals)}, got ${JSON.stringify(manifestPositionals)}`;
+
+    return null;
+}
+
 /**
  * @template Context The context shared by all commands. Contexts are a set of values, defined when calling the `run`/`runExit` functions from the CLI instance, that will be made available to the commands via `this.context`.
  */
@@ -143,15 +433,20 @@ export class Cli<Context extends BaseContext = BaseContext> implements MiniCli<C
         stdin: process.stdin,
         stdout: process.stdout,
         stderr: process.stderr,
+        env: process.env,
+        get cwd() {
+            return process.cwd();
+        },
     };
 
     private readonly builder: CliBuilder<CliContext<Context>>;
 
-    private readonly registrations: Map<CommandClass<Context>, {
-        index: number,
-        builder: CommandBuilder<CliContext<Context>>,
-        specs: Map<string, CommandOption<unknown>>,
-    }> = new Map();
+    private readonly registrations: Map<CommandClass<Context>, Registration<Context>> = new Map();
+
+    private readonly middlewares: Middleware<Context>[] = [];
+
+    private compiled: ReturnType<CliBuilder<CliContext<Context>>['compile']> | null = null;
+    private version: string | null = null;
 
     public readonly binaryLabel?: string;
     public readonly binaryName: string;
@@ -159,6 +454,18 @@ export class Cli<Context extends BaseContext = BaseContext> implements MiniCli<C
 
     public readonly enableColors: boolean;
 
+    public readonly configuration: ConfigurationSource[];
+
+    public readonly enablePrompts: boolean;
+
+    public readonly enableStrictRegistration: boolean;
+
+    public readonly exitCodes: [ErrorClass, number][];
+
+    public readonly enableJsonErrors: boolean;
+
+    public readonly enableStdoutErrors: boolean;
+
     /**
      * Creates a new Cli and registers all commands passed as parameters.
      *
@@ -174,7 +481,7 @@ export class Cli<Context extends BaseContext = BaseContext> implements MiniCli<C
         return cli;
     }
 
-    constructor({binaryLabel, binaryName: binaryNameOpt = `...`, binaryVersion, enableColors = getDefaultColorSettings()}: Partial<CliOptions> = {}) {
+    constructor({binaryLabel, binaryName: binaryNameOpt = `...`, binaryVersion, enableColors = getDefaultColorSettings(), configuration = [], enablePrompts = false, enableStrictRegistration = false, exitCodes = [], enableJsonErrors = false, enableStdoutErrors = false}: Partial<CliOptions> = {}) {
         this.builder = new CliBuilder({binaryName: binaryNameOpt});
 
         this.binaryLabel = binaryLabel;
@@ -182,13 +489,30 @@ export class Cli<Context extends BaseContext = BaseContext> implements MiniCli<C
         this.binaryVersion = binaryVersion;
 
         this.enableColors = enableColors;
+
+        this.configuration = configuration;
+
+        this.enablePrompts = enablePrompts;
+
+        this.enableStrictRegistration = enableStrictRegistration;
+
+        this.exitCodes = exitCodes;
+
+        this.enableJsonErrors = enableJsonErrors;
+
+        this.enableStdoutErrors = enableStdoutErrors;
     }
 
     /**
      * Registers a command inside the CLI.
      */
     register(commandClass: CommandClass<Context>) {
-        const specs = new Map<string, CommandOption<any>>();
+        if (this.enableStrictRegistration) {
+            const scratch = new CliBuilder<CliContext<Context>>().command();
+            Cli.define(commandClass, scratch);
+
+            this.checkRegistration({paths: commandClass.paths ?? [], options: scratch.options, arity: scratch.arity});
+        }
 
         const builder = this.builder.command();
         const index = builder.cliIndex;
@@ -197,25 +521,332 @@ export class Cli<Context extends BaseContext = BaseContext> implements MiniCli<C
             for (const path of commandClass.paths)
                 builder.addPath(path);
 
+        const context = {commandClass};
+        const {specs, keys, positionalKeys, positionalDefinitionKeys} = Cli.define(commandClass, builder);
+
+        this.registrations.set(commandClass, {index, builder, context, specs, keys, positionalKeys, positionalDefinitionKeys});
+
+        builder.setContext(context);
+        this.invalidate();
+    }
+
+    /**
+     * Registers a command whose implementation will only be loaded once
+     * selected by the command line. The manifest is expected to have been
+     * generated at build time using `Cli.getManifest`.
+     *
+     * @example
+     * cli.registerLazy({...manifest, load: () => import(`./commands/install`)});
+     */
+    registerLazy({paths, usage, options, positionals = [], arity, load}: LazyCommand<Context>) {
+        if (this.enableStrictRegistration)
+            this.checkRegistration({paths, options, arity: {...arity, extra: arity.extra !== null ? arity.extra : NoLimits}});
+
+        const builder = this.builder.command();
+        const index = builder.cliIndex;
+
+        for (const path of paths)
+            builder.addPath(path);
+
+        builder.setArity({
+            leading: [...arity.leading],
+            extra: arity.extra !== null ? [...arity.extra] : NoLimits,
+            trailing: [...arity.trailing],
+            proxy: arity.proxy,
+        });
+
+        // The completions derived from the choices don't need the command to
+        // be loaded, so they're the same as when registering it eagerly
+        for (const option of options)
+            builder.addOption({...option, complete: typeof option.choices !== `undefined` ? Command.Completions.Choices(option.choices) : undefined});
+
+        for (const positional of positionals) {
+            builder.positionals.push({...positional});
+
+            if (typeof positional.choices !== `undefined`) {
+                builder.setCompletionProvider(positional.name, Command.Completions.Choices(positional.choices));
+            }
+        }
+
+        // The placeholder stands for the command until it gets loaded, at
+        // which point it's replaced by the actual class
+        const commandClass = class LazyCommand extends Command<Context> {
+            static paths = paths;
+            static usage = usage;
+
+            async execute(): Promise<number | void> {
+                throw new Error(`Assertion failed: Expected the lazy command to have been loaded`);
+            }
+        };
+
+        const context = {commandClass};
+
+        this.registrations.set(commandClass, {index, builder, context, specs: new Map(), keys: new Map(), positionalKeys: new Map(), positionalDefinitionKeys: new Map(), load});
+
+        builder.setContext(context);
+        this.invalidate();
+    }
+
+    /**
+     * Statically analyzes the registered commands, and returns the problems
+     * that would otherwise only surface as errors when running some specific
+     * command lines (for instance two commands sharing the same path and
+     * positional arguments).
+     */
+    lint(): LintDiagnostic[] {
+        return lintCommands(this.getBuilders(), {binaryName: this.binaryName}).map(({indices, ...diagnostic}) => diagnostic);
+    }
+
+    private checkRegistration(command: LintedCommand) {
+        const builders = this.getBuilders();
+
+        const diagnostics = lintCommands([...builders, command], {binaryName: this.binaryName}).filter(({indices}) => {
+            return indices.includes(builders.length);
+        });
+
+        if (diagnostics.length > 0) {
+            throw new Error(`The command can't be registered:\n\n${diagnostics.map(({message}) => `- ${message}`).join(`\n`)}`);
+        }
+    }
+
+    private getBuilders() {
+        return [...this.registrations.values()]
+            .sort((a, b) => a.index - b.index)
+            .map(({builder}) => builder);
+    }
+
+    /**
+     * Returns a hash of the definitions of the registered commands. It
+     * changes whenever a registration (or the format of the machines) would
+     * change the state machine.
+     */
+    getVersion() {
+        if (this.version === null) {
+            const commands = this.getBuilders().map(({paths, options, arity}) => ({
+                paths,
+                options,
+                arity: {...arity, extra: arity.extra !== NoLimits ? arity.extra : null},
+            }));
+
+            const hash = createHash(`sha256`);
+            hash.update(JSON.stringify({format: MACHINE_FORMAT_VERSION, binaryName: this.binaryName, commands}));
+
+            this.version = hash.digest(`hex`);
+        }
+
+        return this.version;
+    }
+
+    /**
+     * Returns the compiled state machine in a JSON-serializable form, so
+     * that it can be generated at build time and loaded at startup through
+     * `loadMachine`.
+     */
+    serializeMachine(): SerializedMachine {
+        return {
+            version: this.getVersion(),
+            machine: this.compile().machine,
+        };
+    }
+
+    /**
+     * Formats the compiled state machine as a Graphviz graph, where each node
+     * is labelled with the command owning it. If `input` is set, only the
+     * nodes visited while parsing it are kept.
+     *
+     * @example
+     * writeFileSync(`machine.dot`, cli.dot({input: [`install`, `--force`]}));
+     */
+    dot({input}: {input?: string[]} = {}) {
+        return this.compile().dot({input});
+    }
+
+    /**
+     * Returns a structured trace of how a command line gets parsed: which
+     * candidates were still alive after each argument, which ones got pruned,
+     * and which criteria decided between the remaining ones. Unlike `process`,
+     * it doesn't throw when the command line is rejected.
+     *
+     * @example
+     * console.log(JSON.stringify(cli.explain([`install`, `--force`]), null, 2));
+     */
+    explain(input: string[]): Explanation {
+        const {process} = this.compile();
+        const {tracer, selectionTracer, steps, selection} = makeExplanationTracer();
+
+        try {
+            const state = process(input, tracer, selectionTracer);
+            return {input, steps, selection, selected: describeState(state), error: null};
+        } catch (error) {
+            return {input, steps, selection, selected: null, error: {name: error.name, message: error.message}};
+        }
+    }
+
+    /**
+     * Uses a machine previously returned by `serializeMachine` instead of
+     * compiling the commands. The machine is ignored if the commands changed
+     * since then.
+     *
+     * @returns Whether the machine has been loaded
+     */
+    loadMachine(serialized: SerializedMachine) {
+        if (serialized.version !== this.getVersion())
+            return false;
+
+        this.compiled = this.builder.compile({machine: serialized.machine});
+        return true;
+    }
+
+    private compile() {
+        if (this.compiled === null)
+            this.compiled = this.builder.compile();
+
+        return this.compiled;
+    }
+
+    private invalidate() {
+        this.compiled = null;
+        this.version = null;
+    }
+
+    /**
+     * Returns the manifest describing a command, to be passed to
+     * `registerLazy` along with a function loading the command.
+     */
+    static getManifest(commandClass: CommandClass<any>): CommandManifest {
+        const builder = new CliBuilder<CliContext<any>>().command();
+        Cli.define(commandClass, builder);
+
+        return {
+            paths: commandClass.paths ?? [],
+            usage: commandClass.usage,
+            options: builder.options.map(option => ({...option})),
+            positionals: builder.positionals.map(positional => ({...positional})),
+            arity: {
+                leading: builder.arity.leading,
+                extra: builder.arity.extra !== NoLimits ? builder.arity.extra : null,
+                trailing: builder.arity.trailing,
+                proxy: builder.arity.proxy,
+            },
+        };
+    }
+
+    private static define<Context extends BaseContext>(commandClass: CommandClass<Context>, builder: CommandBuilder<CliContext<Context>>) {
+        const specs = new Map<string, CommandOption<any>>();
+
         const command = new commandClass();
         for (const [key, value] of Object.entries(command))
             if (typeof value === `object` && value !== null && value[Command.isOption])
                 specs.set(key, value);
 
-        this.registrations.set(commandClass, {specs, builder, index});
+        // We keep track of which property each option belongs to, since
+        // that's the key used to find their value in the configuration
+        const keys = new Map<OptDefinition, string>();
+        const positionalKeys = new Map<string, string>();
+        const positionalDefinitionKeys = new Map<PositionalDefinition, string>();
+
+        for (const [key, {definition}] of specs.entries()) {
+            const optionCount = builder.options.length;
+            const positionalCount = builder.positionals.length;
+            const leadingCount = builder.arity.leading.length;
+            const trailingCount = builder.arity.trailing.length;
 
-        for (const [key, {definition}] of specs.entries())
             definition(builder, key);
 
-        builder.setContext({
-            commandClass,
-        });
+            for (const option of builder.options.slice(optionCount))
+                keys.set(option, key);
+            for (const positional of builder.positionals.slice(positionalCount))
+                positionalDefinitionKeys.set(positional, key);
+
+            // Only the required positionals are tracked, since they're the
+            // only ones that may have to be prompted for
+            for (const name of [...builder.arity.leading.slice(leadingCount), ...builder.arity.trailing.slice(trailingCount)]) {
+                positionalKeys.set(name, key);
+            }
+        }
+
+        return {specs, keys, positionalKeys, positionalDefinitionKeys};
+    }
+
+    /**
+     * Loads the implementation of the selected command if it was registered
+     * through `registerLazy`.
+     */
+    private async load(state: RunState, contexts: CliContext<Context>[]) {
+        if (state.selectedIndex === HELP_COMMAND_INDEX)
+            return;
+
+        const {commandClass} = contexts[state.selectedIndex!];
+
+        const record = this.registrations.get(commandClass);
+        if (typeof record === `undefined` || typeof record.load === `undefined`)
+            return;
+
+        const exports = await record.load();
+        const loadedClass = typeof exports === `function` ? exports : exports.default;
+
+        const scratch = new CliBuilder<CliContext<Context>>().command();
+        const {specs, keys, positionalKeys, positionalDefinitionKeys} = Cli.define(loadedClass, scratch);
+
+        const mismatch = getManifestMismatch(record.builder, scratch);
+        if (mismatch !== null)
+            throw new Error(`The manifest of ${loadedClass.name} is out of date (${mismatch})`);
+
+        // The keys are indexed by the option definitions of the Cli builder
+        for (let t = 0; t < scratch.options.length; ++t)
+            record.keys.set(record.builder.options[t], keys.get(scratch.options[t])!);
+        for (let t = 0; t < scratch.positionals.length && t < record.builder.positionals.length; ++t)
+            record.positionalDefinitionKeys.set(record.builder.positionals[t], positionalDefinitionKeys.get(scratch.positionals[t])!);
+
+        for (const [key, spec] of specs)
+            record.specs.set(key, spec);
+        for (const [name, key] of positionalKeys)
+            record.positionalKeys.set(name, key);
+
+        record.context.commandClass = loadedClass;
+        record.load = undefined;
+
+        // We swap the placeholder for the loaded class while preserving the
+        // registration order
+        const registrations = [...this.registrations];
+        this.registrations.clear();
+
+        for (const [klass, registration] of registrations) {
+            this.registrations.set(klass === commandClass ? loadedClass : klass, registration);
+        }
     }
 
-    process(input: string[]) {
-        const {contexts, process} = this.builder.compile();
+    /**
+     * Registers a middleware wrapping the execution of all commands. The
+     * middlewares registered first are the outermost ones.
+     */
+    use(middleware: Middleware<Context>) {
+        this.middlewares.push(middleware);
+    }
+
+    process(input: string[], context: Partial<Context> = {}) {
+        const {contexts, process} = this.compile();
         const state = process(input);
 
+        return this.instantiate(state, contexts, context, this.makeConfigurationLoader(context));
+    }
+
+    /**
+     * Returns a function reading the configuration files on its first call,
+     * so that they're only read once per run, and only if needed.
+     */
+    private makeConfigurationLoader(context: Partial<Context>) {
+        let configuration: Configuration | null = null;
+
+        return () => {
+            if (configuration === null)
+                configuration = resolveConfiguration(this.configuration, context);
+
+            return configuration;
+        };
+    }
+
+    private instantiate(state: RunState, contexts: CliContext<Context>[], context: Partial<Context>, getConfiguration: () => Configuration) {
         switch (state.selectedIndex) {
             case HELP_COMMAND_INDEX: {
                 return HelpCommand.from<Context>(state, contexts);
@@ -228,12 +859,17 @@ export class Cli<Context extends BaseContext = BaseContext> implements MiniCli<C
                 if (typeof record === `undefined`)
                     throw new Error(`Assertion failed: Expected the command class to have been registered.`);
 
+                if (typeof record.load !== `undefined`)
+                    throw new Error(`Lazy commands have to be loaded before being processed (use \`run\` instead)`);
+
                 const command = new commandClass();
                 command.path = state.path;
 
                 try {
+                    const configuration = getConfiguration();
+
                     for (const [key, {transformer}] of record.specs.entries())
-                        (command as any)[key] = transformer(record.builder, key, state);
+                        (command as any)[key] = transformer(record.builder, key, state, context, configuration);
 
                     return command;
                 } catch (error) {
@@ -247,19 +883,50 @@ export class Cli<Context extends BaseContext = BaseContext> implements MiniCli<C
     async run(input: Command<Context> | string[], context: Context) {
         let command: Command<Context>;
 
+        let enableJsonErrors = this.enableJsonErrors;
+        if (Array.isArray(input) && input[0] === jsonErrorsFlag) {
+            input = input.slice(1);
+            enableJsonErrors = true;
+        }
+
+        const getConfiguration = this.makeConfigurationLoader(context);
+
         if (!Array.isArray(input)) {
             command = input;
         } else {
             try {
-                command = this.process(input);
+                const {contexts, process} = this.compile();
+                const state = process(input);
+
+                await this.load(state, contexts);
+                command = this.instantiate(state, contexts, context, getConfiguration);
             } catch (error) {
-                context.stdout.write(this.error(error));
-                return 1;
+                let prompted: Command<Context> | null = null;
+
+                try {
+                    if (this.canPrompt(error, context)) {
+                        prompted = await this.processWithPrompts(input, context, getConfiguration);
+                    }
+                } catch (promptError) {
+                    error = promptError;
+                }
+
+                if (prompted === null) {
+                    return this.reportError(error, context, {json: enableJsonErrors});
+                }
+
+                command = prompted;
             }
         }
 
         if (command.help) {
-            context.stdout.write(this.usage(command, {detailed: true}));
+            // The help lists the defaults, which requires reading the configuration
+            try {
+                context.stdout.write(this.formatUsage(command, {detailed: true, context}, getConfiguration));
+            } catch (error) {
+                return this.reportError(error, context, {command, json: enableJsonErrors});
+            }
+
             return 0;
         }
 
@@ -269,41 +936,403 @@ export class Cli<Context extends BaseContext = BaseContext> implements MiniCli<C
             binaryName: this.binaryName,
             binaryVersion: this.binaryVersion,
             enableColors: this.enableColors,
+            configuration: this.configuration,
+            enablePrompts: this.enablePrompts,
+            enableStrictRegistration: this.enableStrictRegistration,
+            exitCodes: this.exitCodes,
+            enableJsonErrors: this.enableJsonErrors,
+            enableStdoutErrors: this.enableStdoutErrors,
+            completions: (words, cword) => this.completions(words, cword),
+            completionScript: shell => this.completionScript(shell),
             definitions: () => this.definitions(),
             error: (error, opts) => this.error(error, opts),
-            process: input => this.process(input),
+            explain: input => this.explain(input),
+            manpage: () => this.manpage(),
+            markdown: () => this.markdown(),
+            schema: () => this.schema(),
+            process: input => this.process(input, context),
             run: (input, subContext?) => this.run(input, {...context, ...subContext}),
-            usage: (command, opts) => this.usage(command, opts),
+            repl: (subContext?, opts?) => this.repl({...context, ...subContext}, opts),
+            usage: (command, opts) => this.formatUsage(command ?? null, {context, ...opts}, getConfiguration),
         };
 
         let exitCode;
         try {
-            exitCode = await command.validateAndExecute().catch(error => command.catch(error).then(() => 0));
+            exitCode = await command.validateAndExecute(this.middlewares).catch(error => command.catch(error).then(exitCode => typeof exitCode === `number` ? exitCode : 0));
         } catch (error) {
-            context.stdout.write(this.error(error, {command}));
-            return 1;
+            // The errors are most likely caused by the interruption itself
+            if (context.signal?.aborted)
+                return getAbortExitCode(context.signal);
+
+            // The help command isn't registered, so there's no usage to print
+            // along with the errors it throws (such as the configuration ones)
+            return this.reportError(error, context, {command: command instanceof HelpCommand ? null : command, json: enableJsonErrors});
         }
 
         return exitCode;
     }
 
+    /**
+     * Prints an error thrown while running a command, and returns the
+     * matching exit code.
+     */
+    private reportError(error: unknown, context: Context, {command = null, json}: {command?: Command<Context> | null, json: boolean}) {
+        const exitCode = this.getErrorExitCode(error);
+
+        if (json) {
+            context.stderr.write(`${JSON.stringify(formatJsonError(normalizeError(error), exitCode))}\n`);
+        } else {
+            this.getErrorStream(context).write(this.error(error, {command}));
+        }
+
+        return exitCode;
+    }
+
+    private getErrorStream(context: Context) {
+        return this.enableStdoutErrors ? context.stdout : context.stderr;
+    }
+
+    /**
+     * Returns the exit code matching an error thrown while running a command
+     * (either from its metadata or from the `exitCodes` option).
+     */
+    private getErrorExitCode(error: unknown) {
+        const meta = getErrorMeta(error);
+        if (typeof meta?.exitCode !== `undefined`)
+            return meta.exitCode;
+
+        for (const [errorClass, exitCode] of this.exitCodes)
+            if (error instanceof errorClass)
+                return exitCode;
+
+        return 1;
+    }
+
+    private canPrompt(error: Error, context: Context) {
+        if (!this.enablePrompts)
+            return false;
+
+        if (!context.stdin.isTTY || !context.stdout.isTTY)
+            return false;
+
+        return error instanceof UnknownSyntaxError
+            && error.candidates.some(({reason}) => reason === `Not enough positional arguments.`);
+    }
+
+    /**
+     * Completes the input with placeholders until it parses, then asks the
+     * user for the values the placeholders stand for. Returns `null` if the
+     * input can't be completed or if the input stream closes early.
+     */
+    private async processWithPrompts(input: string[], context: Context, getConfiguration: () => Configuration) {
+        const {contexts, process} = this.compile();
+
+        let maxMissingCount = 0;
+        for (const {builder} of this.registrations.values())
+            maxMissingCount = Math.max(maxMissingCount, builder.arity.leading.length + builder.arity.trailing.length);
+
+        for (let missingCount = 1; missingCount <= maxMissingCount; ++missingCount) {
+            const placeholders = Array.from({length: missingCount}, (_, index) => `${promptPlaceholder}${index}`);
+
+            let state: RunState;
+            try {
+                state = process([...input, ...placeholders]);
+            } catch {
+                continue;
+            }
+
+            if (state.selectedIndex === HELP_COMMAND_INDEX)
+                return null;
+
+            // The placeholders must only stand for the missing required
+            // positionals, not for option values nor for the optional and
+            // rest positionals
+            const isPlaceholder = (value: unknown) => typeof value === `string` && value.startsWith(promptPlaceholder);
+
+            const hasMisplacedPlaceholders = state.options.some(({value}) => Array.isArray(value) ? value.some(isPlaceholder) : isPlaceholder(value))
+                || state.positionals.some(({value, extra}) => extra !== false && isPlaceholder(value));
+
+            if (hasMisplacedPlaceholders)
+                continue;
+
+            await this.load(state, contexts);
+
+            const {commandClass} = contexts[state.selectedIndex!];
+
+            const record = this.registrations.get(commandClass);
+            if (typeof record === `undefined`)
+                throw new Error(`Assertion failed: Expected the command class to have been registered.`);
+
+            const positionals = await this.promptPositionals(state, record, context);
+            if (positionals === null)
+                return null;
+
+            return this.instantiate({...state, positionals}, contexts, context, getConfiguration);
+        }
+
+        return null;
+    }
+
+    private async promptPositionals(state: RunState, {builder, specs, positionalKeys}: Registration<Context>, context: Context) {
+        const reader = createInterface({input: context.stdin, terminal: false});
+
+        // Lines are queued as they come since several of them may be
+        // received at once (for instance when pasting multiple answers)
+        const lines: string[] = [];
+        const waiters: ((line: string | null) => void)[] = [];
+        let closed = false;
+
+        reader.on(`line`, line => {
+            const waiter = waiters.shift();
+            if (typeof waiter !== `undefined`) {
+                waiter(line);
+            } else {
+                lines.push(line);
+            }
+        });
+
+        reader.on(`close`, () => {
+            closed = true;
+            for (const waiter of waiters.splice(0)) {
+                waiter(null);
+            }
+        });
+
+        const ask = (query: string) => new Promise<string | null>(resolve => {
+            context.stdout.write(query);
+
+            if (lines.length > 0) {
+                resolve(lines.shift()!);
+            } else if (closed) {
+                resolve(null);
+            } else {
+                waiters.push(resolve);
+            }
+        });
+
+        const positionals: RunState['positionals'] = [];
+
+        try {
+            // The placeholders are never extra, so their rank among the
+            // non-extra positionals tells us which argument they stand for
+            let requiredIndex = 0;
+
+            for (const positional of state.positionals) {
+                const name = positional.extra === false
+                    ? requiredIndex < builder.arity.leading.length
+                        ? builder.arity.leading[requiredIndex]
+                        : builder.arity.trailing[requiredIndex - builder.arity.leading.length]
+                    : null;
+
+                if (positional.extra === false)
+                    requiredIndex += 1;
+
+                if (name === null || !positional.value.startsWith(promptPlaceholder)) {
+                    positionals.push(positional);
+                    continue;
+                }
+
+                const key = positionalKeys.get(name);
+                const spec = typeof key !== `undefined`
+                    ? specs.get(key)
+                    : undefined;
+
+                while (true) {
+                    const answer = await ask(`${this.format().bold(`${name}:`)} `);
+                    if (answer === null)
+                        return null;
+
+                    if (answer === ``)
+                        continue;
+
+                    // We run the transformer on the answer alone so that the
+                    // validator of the positional reports errors right away
+                    try {
+                        if (typeof key !== `undefined` && typeof spec !== `undefined`) {
+                            spec.transformer(builder, key, {...state, options: [], positionals: [{value: answer, extra: false}]}, context, new Map());
+                        }
+                    } catch (error) {
+                        this.getErrorStream(context).write(this.errorLine(error));
+                        continue;
+                    }
+
+                    positionals.push({value: answer, extra: false});
+                    break;
+                }
+            }
+        } finally {
+            reader.close();
+        }
+
+        return positionals;
+    }
+
     /**
      * Runs a command and exits the current `process` with the exit code returned by the command.
      *
+     * Unless the context already provides a `signal`, the SIGINT and SIGTERM
+     * signals abort the one passed to the command instead of killing the
+     * process. A second SIGINT exits right away. The signals keep their
+     * default behavior on the Node versions without `AbortController`.
+     *
      * @param input An array containing the name of the command and its arguments.
      *
      * @example
      * cli.runExit(process.argv.slice(2), Cli.defaultContext)
      */
     async runExit(input: Command<Context> | string[], context: Context) {
-        process.exitCode = await this.run(input, context);
+        if (typeof context.signal !== `undefined` || typeof AbortController === `undefined`) {
+            process.exitCode = await this.run(input, context);
+            return;
+        }
+
+        const controller = new AbortController();
+
+        const onSignal = (signal: NodeJS.Signals) => {
+            if (controller.signal.aborted) {
+                if (signal === `SIGINT`)
+                    process.exit(getSignalExitCode(signal));
+            } else {
+                controller.abort(signal);
+            }
+        };
+
+        process.on(`SIGINT`, onSignal);
+        process.on(`SIGTERM`, onSignal);
+
+        try {
+            process.exitCode = await this.run(input, {...context, signal: controller.signal});
+        } finally {
+            process.off(`SIGINT`, onSignal);
+            process.off(`SIGTERM`, onSignal);
+        }
+    }
+
+    /**
+     * Starts an interactive session reading commands from `stdin` until the
+     * stream ends or the user types `exit`. All commands share the same
+     * context.
+     *
+     * @example
+     * cli.repl(Cli.defaultContext)
+     */
+    async repl(context: Context, {prompt = `${this.binaryName}> `}: {prompt?: string} = {}) {
+        const completer = (line: string, callback: (error: null, result: [string[], string]) => void) => {
+            let words: string[];
+            try {
+                words = tokenizeShellLine(line);
+            } catch {
+                return callback(null, [[], line]);
+            }
+
+            if (words.length === 0 || /\s$/.test(line))
+                words.push(``);
+
+            const current = words[words.length - 1];
+
+            this.completions([this.binaryName, ...words], words.length).then(candidates => {
+                callback(null, [candidates, current]);
+            }, () => {
+                // Readline waits for the callback before reading the next keys
+                callback(null, [[], line]);
+            });
+        };
+
+        const reader = createInterface({
+            input: context.stdin,
+            output: context.stdout,
+            terminal: Boolean(context.stdin.isTTY && context.stdout.isTTY),
+            completer,
+        });
+
+        let exitCode = 0;
+
+        reader.setPrompt(prompt);
+        reader.prompt();
+
+        try {
+            for await (const line of reader) {
+                let input: string[] | null;
+                try {
+                    input = tokenizeShellLine(line);
+                } catch (error) {
+                    this.getErrorStream(context).write(this.errorLine(error));
+                    input = null;
+                }
+
+                if (input !== null && input.length === 1 && input[0] === `exit`)
+                    break;
+
+                if (input !== null && input.length > 0)
+                    exitCode = await this.run(input, context);
+
+                reader.prompt();
+            }
+        } finally {
+            reader.close();
+        }
+
+        return exitCode;
     }
 
     suggest(input: string[], partial: boolean) {
-        const {contexts, process, suggest} = this.builder.compile();
+        const {suggest} = this.compile();
         return suggest(input, partial);
     }
 
+    async completions(words: string[], cword: number): Promise<string[]> {
+        const {suggestWithValues} = this.compile();
+
+        // The first word is the binary name, which isn't part of the input
+        const input = words.slice(1, cword);
+        const current = words[cword] ?? ``;
+
+        // The values bound to an option (`--foo=bar`) are completed as if they
+        // were the next word, then bound back to it
+        const binding = current.startsWith(`-`) ? current.match(BINDING_REGEX) : null;
+        if (binding !== null) {
+            const [, name, value] = binding;
+            const values = await this.completions([words[0], ...input, name, value], cword + 1);
+
+            return values.map(value => `${name}=${value}`);
+        }
+
+        // The words following the input include the exact matches, while the
+        // partial matches let the completion providers see what's already
+        // been typed (they fail on the words matching no transition, such
+        // as the option prefixes)
+        let nextWords: string[][] = [];
+        let remainders: string[][] = [];
+
+        try {
+            nextWords = await suggestWithValues(input, false);
+        } catch {}
+
+        if (current !== ``) {
+            try {
+                remainders = await suggestWithValues([...input, current], true);
+            } catch {}
+        }
+
+        const candidates = new Set<string>();
+
+        for (const [candidate] of nextWords)
+            if (typeof candidate !== `undefined` && candidate.startsWith(current))
+                candidates.add(candidate);
+
+        // Empty remainders mean that the current word is complete, in which
+        // case the suggestions are about the next word
+        for (const [remainder] of remainders)
+            if (typeof remainder !== `undefined` && remainder !== ``)
+                candidates.add(`${current}${remainder}`);
+
+        return [...candidates].sort();
+    }
+
+    completionScript(shell: string) {
+        return formatCompletionScript(shell, {binaryName: this.binaryName});
+    }
+
     definitions({colored = false}: {colored?: boolean} = {}): Definition[] {
         const data: Definition[] = [];
 
@@ -330,13 +1359,92 @@ export class Cli<Context extends BaseContext = BaseContext> implements MiniCli<C
                 ? commandClass.usage.examples.map(([label, cli]) => [formatMarkdownish(label, {format: this.format(colored), paragraphs: false}), cli.replace(/\$0/g, this.binaryName)])
                 : undefined;
 
-            data.push({path, usage, category, description, details, examples, options});
+            const {positionals} = this.builder.getBuilderByIndex(index);
+
+            data.push({path, usage, category, description, details, examples, options, positionals});
         }
 
         return data;
     }
 
-    usage(command: CommandClass<Context> | Command<Context> | null = null, {colored, detailed = false, prefix = `$ `}: {colored?: boolean, detailed?: boolean, prefix?: string} = {}) {
+    manpage(): Manpage[] {
+        const commands = this.getDocumentedCommands().map(command => ({
+            ...command,
+            name: [this.binaryName, ...command.path].join(`-`),
+        }));
+
+        const opts = {binaryLabel: this.binaryLabel, binaryName: this.binaryName, binaryVersion: this.binaryVersion};
+
+        const pages = [{name: `${this.binaryName}.1`, content: formatIndexManpage(commands, opts)}];
+        for (const command of commands)
+            if (command.path.length > 0)
+                pages.push({name: `${command.name}.1`, content: formatCommandManpage(command, opts)});
+
+        return pages;
+    }
+
+    markdown(): MarkdownPage[] {
+        return formatMarkdownPages(this.getDocumentedCommands(), {binaryLabel: this.binaryLabel, binaryName: this.binaryName});
+    }
+
+    schema(): CliSchema {
+        const commands: CliSchema['commands'] = [];
+
+        for (const [commandClass, {builder, specs, keys, positionalDefinitionKeys}] of this.registrations) {
+            // Lazy commands that haven't been loaded yet don't have any spec,
+            // so only what their manifest contains gets reported
+            const options = builder.options.map(option => {
+                const key = keys.get(option);
+                const metadata = typeof key !== `undefined` ? specs.get(key)?.metadata : undefined;
+
+                return {
+                    key,
+                    names: option.names,
+                    arity: option.arity,
+                    hidden: option.hidden,
+                    required: option.required ?? false,
+                    negatable: option.arity === 0 && option.names.some(name => name.startsWith(`--`) && !name.startsWith(`--no-`)),
+                    description: option.description,
+                    env: option.env,
+                    ...typeof option.choices !== `undefined` ? {choices: option.choices} : {},
+                    ...metadata,
+                };
+            });
+
+            const positionals = builder.positionals.map(positional => {
+                const key = positionalDefinitionKeys.get(positional);
+                const metadata = typeof key !== `undefined` ? specs.get(key)?.metadata : undefined;
+
+                return {
+                    key,
+                    ...positional,
+                    type: metadata?.type,
+                    validated: metadata?.validated,
+                };
+            });
+
+            commands.push({
+                paths: builder.paths,
+                category: commandClass.usage?.category,
+                description: commandClass.usage?.description,
+                options,
+                positionals,
+            });
+        }
+
+        return {
+            binaryLabel: this.binaryLabel,
+            binaryName: this.binaryName,
+            binaryVersion: this.binaryVersion,
+            commands,
+        };
+    }
+
+    usage(command: CommandClass<Context> | Command<Context> | null = null, opts: {colored?: boolean, detailed?: boolean, prefix?: string, context?: Partial<Context>} = {}) {
+        return this.formatUsage(command, opts, this.makeConfigurationLoader(opts.context ?? {}));
+    }
+
+    private formatUsage(command: CommandClass<Context> | Command<Context> | null, {colored, detailed = false, prefix = `$ `, context}: {colored?: boolean, detailed?: boolean, prefix?: string, context?: Partial<Context>}, getConfiguration: () => Configuration) {
         // @ts-ignore
         const commandClass = command !== null && command instanceof Command
             ? command.constructor as CommandClass<Context>
@@ -446,8 +1554,35 @@ export class Cli<Context extends BaseContext = BaseContext> implements MiniCli<C
 
                     result += `\n`;
 
-                    for (const {definition, description} of options) {
-                        result += `  ${definition.padEnd(maxDefinitionLength)}    ${formatMarkdownish(description, {format: this.format(colored), paragraphs: false})}`;
+                    for (const {definition, description = ``, env, choices} of options) {
+                        const annotations = [];
+                        if (typeof choices !== `undefined`)
+                            annotations.push(`(choices: ${choices.join(`, `)})`);
+                        if (typeof env !== `undefined`)
+                            annotations.push(`(env: ${env})`);
+
+                        const text = [description.replace(/\s+$/, ``), ...annotations].filter(part => part !== ``).join(` `);
+
+                        result += `  ${definition.padEnd(maxDefinitionLength)}    ${formatMarkdownish(text, {format: this.format(colored), paragraphs: false})}`;
+                    }
+                }
+
+                const defaults = typeof context !== `undefined`
+                    ? this.getDefaultsByRegistration(commandClass, context, getConfiguration())
+                    : [];
+
+                if (defaults.length > 0) {
+                    result += `\n`;
+                    result += `${this.format(colored).bold(`Defaults:`)}\n`;
+
+                    const maxNameLength = defaults.reduce((length, {names}) => {
+                        return Math.max(length, names.length);
+                    }, 0);
+
+                    result += `\n`;
+
+                    for (const {names, value, origin} of defaults) {
+                        result += `  ${names.padEnd(maxNameLength)}    ${JSON.stringify(value)} (from ${origin})\n`;
                     }
                 }
 
@@ -479,8 +1614,7 @@ export class Cli<Context extends BaseContext = BaseContext> implements MiniCli<C
     }
 
     error(error: Error | any, {colored, command = error[errorCommandSymbol] ?? null}: {colored?: boolean, command?: Command<Context> | null} = {}) {
-        if (!(error instanceof Error))
-            error = new Error(`Execution failed with a non-error rejection (rejected value: ${JSON.stringify(error)})`);
+        error = normalizeError(error);
 
         let result = ``;
 
@@ -490,6 +1624,11 @@ export class Cli<Context extends BaseContext = BaseContext> implements MiniCli<C
 
         result += `${this.format(colored).error(name)}: ${error.message}\n`;
 
+        if (error instanceof UnknownSyntaxError && error.suggestions.length > 0) {
+            result += `\n`;
+            result += `Did you mean ${error.suggestions.map(suggestion => this.format(colored).code(suggestion)).join(`, `)}?\n`;
+        }
+
         // @ts-ignore
         const meta = error.clipanion as core.ErrorMeta | undefined;
 
@@ -507,6 +1646,63 @@ export class Cli<Context extends BaseContext = BaseContext> implements MiniCli<C
         return result;
     }
 
+    /**
+     * Formats an error on a single line, without the usage or stack trace
+     * that `error` would include.
+     */
+    private errorLine(error: Error) {
+        return `${this.format().error(error.name.replace(/([a-z])([A-Z])/g, `$1 $2`))}: ${error.message}\n`;
+    }
+
+    /**
+     * Returns the raw usage information of the commands that have one, for
+     * the documentation generators.
+     */
+    private getDocumentedCommands() {
+        const commands = [];
+
+        for (const [commandClass, {index, builder}] of this.registrations) {
+            if (typeof commandClass.usage === `undefined`)
+                continue;
+
+            const {usage} = this.getUsageByIndex(index);
+
+            commands.push({
+                path: builder.paths[0] ?? [],
+                usage,
+                category: commandClass.usage.category,
+                description: commandClass.usage.description,
+                details: commandClass.usage.details,
+                examples: commandClass.usage.examples,
+                options: builder.options.filter(option => !option.hidden),
+                positionals: builder.positionals,
+            });
+        }
+
+        return commands;
+    }
+
+    private getDefaultsByRegistration(klass: CommandClass<Context>, context: Partial<Context>, configuration: Configuration) {
+        const record = this.registrations.get(klass);
+        if (typeof record === `undefined`)
+            throw new Error(`Assertion failed: Unregistered command`);
+
+        const defaults: {names: string, value: unknown, origin: string}[] = [];
+
+        for (const option of record.builder.options) {
+            const key = record.keys.get(option);
+            if (option.hidden || typeof key === `undefined`)
+                continue;
+
+            const fallback = getFallback(key, option.env, context, configuration);
+            if (typeof fallback !== `undefined`) {
+                defaults.push({names: option.names.join(`,`), value: fallback.value, origin: fallback.origin});
+            }
+        }
+
+        return defaults;
+    }
+
     private getUsageByRegistration(klass: CommandClass<Context>, opts?: {detailed?: boolean; inlineOptions?: boolean}) {
         const record = this.registrations.get(klass);
         if (typeof record === `undefined`)
@@ -1,16 +1,38 @@
 import {Coercion, LooseTest, StrictValidator} from 'typanion';
 
-import {CommandBuilder, NoLimits, RunState} from '../core';
+import {Configuration}                   from '../configuration';
+import {BINDING_REGEX}                   from '../constants';
+import {CommandBuilder, CompletionProvider, NoLimits, PositionalDefinition, RunState} from '../core';
 import { UsageError } from '../errors';
 
-import {BaseContext, CliContext, MiniCli}   from './Cli';
+import {BaseContext, CliContext, MiniCli, Middleware} from './Cli';
 
 const isOptionSymbol = Symbol(`clipanion/isOption`);
 
+/**
+ * What the declarators know about the value of an option, exposed through
+ * `Cli#schema`.
+ */
+export type CommandOptionMetadata = {
+    /**
+     * The type of the value as read from the command line (or its fallback),
+     * before going through the validator.
+     */
+    type: string,
+    default?: unknown,
+    validated?: boolean,
+    /**
+     * Set to `false` for the options without arguments that shouldn't be
+     * documented as negatable through `--no-<name>`.
+     */
+    negatable?: boolean,
+};
+
 export type CommandOption<T> = {
     [isOptionSymbol]: true,
+    metadata?: CommandOptionMetadata,
     definition: <Context extends BaseContext>(builder: CommandBuilder<CliContext<Context>>, key: string) => void,
-    transformer: <Context extends BaseContext>(builder: CommandBuilder<CliContext<Context>>, key: string, state: RunState) => T,
+    transformer: <Context extends BaseContext>(builder: CommandBuilder<CliContext<Context>>, key: string, state: RunState, context: Partial<Context>, configuration: Configuration) => T,
 };
 
 export type CommandOptionReturn<T> = T;
@@ -20,6 +42,21 @@ function makeCommandOption<T>(spec: Omit<CommandOption<T>, typeof isOptionSymbol
     return {...spec, [isOptionSymbol]: true} as any as CommandOptionReturn<T>;
 }
 
+function formatTupleType(arity: number) {
+    if (arity === 1)
+        return `string`;
+
+    // Invalid arities are reported by the builder once the option is defined
+    if (!Number.isInteger(arity) || arity < 0)
+        return `unknown`;
+
+    return `[${new Array(arity).fill(`string`).join(`, `)}]`;
+}
+
+function formatChoicesType(choices: ReadonlyArray<string>) {
+    return choices.map(choice => JSON.stringify(choice)).join(` | `);
+}
+
 function rerouteArguments<A, B>(a: A | B, b: B): [Exclude<A, B>, B];
 function rerouteArguments<A, B>(a: A | B | undefined, b: B): [Exclude<A, B> | undefined, B];
 function rerouteArguments<A, B>(a: A | B | undefined, b: B): [Exclude<A, B>, B] {
@@ -42,6 +79,13 @@ function cleanValidationError(message: string, lowerCase: boolean = false) {
     return cleaned;
 }
 
+function checkChoice(name: string, value: unknown, choices?: ReadonlyArray<string>) {
+    if (typeof choices === `undefined` || typeof value !== `string` || choices.includes(value))
+        return;
+
+    throw new UsageError(`Invalid value for ${name}: expected one of ${choices.map(choice => JSON.stringify(choice)).join(`, `)} (got ${JSON.stringify(value)})`);
+}
+
 function formatError(message: string, errors: string[]) {
     if (errors.length === 1) {
         return new UsageError(`${message}: ${cleanValidationError(errors[0], true)}`)
@@ -67,49 +111,373 @@ function applyValidator<U, V>(name: string, value: U, validator?: StrictValidato
     return value;
 }
 
+async function completePaths(partial: string, {directoriesOnly}: {directoriesOnly: boolean}) {
+    const {promises: fs} = await import(`fs`);
+
+    const separatorIndex = partial.lastIndexOf(`/`);
+
+    const directory = partial.slice(0, separatorIndex + 1);
+    const base = partial.slice(separatorIndex + 1);
+
+    let entries;
+    try {
+        entries = await fs.readdir(directory !== `` ? directory : `.`, {withFileTypes: true});
+    } catch (error) {
+        return [];
+    }
+
+    const suggestions: string[] = [];
+
+    for (const entry of entries) {
+        // Hidden files are only suggested when explicitly requested
+        if (!entry.name.startsWith(base) || (entry.name.startsWith(`.`) && !base.startsWith(`.`)))
+            continue;
+
+        if (entry.isDirectory()) {
+            suggestions.push(`${directory}${entry.name}/`);
+        } else if (!directoriesOnly) {
+            suggestions.push(`${directory}${entry.name}`);
+        }
+    }
+
+    return suggestions;
+}
+
+export type Fallback = {
+    /**
+     * Describes the fallback in the error messages.
+     */
+    label: string,
+    /**
+     * Where the value comes from, as displayed in the help.
+     */
+    origin: string,
+    value: unknown,
+};
+
+/**
+ * Returns the value an option should take when it isn't set on the command
+ * line. Environment variables take precedence over the configuration files.
+ */
+export function getFallback(key: string, env: string | undefined, context: Partial<BaseContext>, configuration: Configuration): Fallback | undefined {
+    if (typeof env !== `undefined` && typeof context.env !== `undefined`) {
+        const value = context.env[env];
+        if (typeof value !== `undefined`) {
+            return {label: `the ${env} environment variable`, origin: `$${env}`, value};
+        }
+    }
+
+    const setting = configuration.get(key);
+    if (typeof setting !== `undefined`)
+        return {label: `the ${key} setting from ${setting.origin}`, origin: setting.origin, value: setting.value};
+
+    return undefined;
+}
+
+function toBoolean({label, value}: Fallback) {
+    if (typeof value === `boolean`)
+        return value;
+
+    switch (typeof value === `string` ? value.toLowerCase() : null) {
+        case `1`: case `true`: case `yes`: case `on`:
+            return true;
+
+        case ``: case `0`: case `false`: case `no`: case `off`:
+            return false;
+
+        default:
+            throw new UsageError(`Invalid value for ${label}: expected a boolean, got ${JSON.stringify(value)}`);
+    }
+}
+
+function toCounter({label, value}: Fallback) {
+    if (typeof value === `number` && Number.isInteger(value) && value >= 0)
+        return value;
+    if (typeof value === `string` && /^[0-9]+$/.test(value))
+        return Number(value);
+
+    throw new UsageError(`Invalid value for ${label}: expected a positive integer, got ${JSON.stringify(value)}`);
+}
+
+function toTuple(fallback: Fallback, arity: 1): string;
+function toTuple(fallback: Fallback, arity: number): string | string[];
+function toTuple({label, value}: Fallback, arity: number): string | string[] {
+    if (arity === 1) {
+        if (typeof value === `string` || typeof value === `number` || typeof value === `boolean`) {
+            return String(value);
+        } else {
+            throw new UsageError(`Invalid value for ${label}: expected a string, got ${JSON.stringify(value)}`);
+        }
+    }
+
+    const parts = typeof value === `string`
+        ? value.trim().split(/\s+/)
+        : value;
+
+    if (!Array.isArray(parts) || parts.length !== arity)
+        throw new UsageError(`Invalid value for ${label}: expected ${arity} space-separated values, got ${JSON.stringify(value)}`);
+
+    return parts.map(part => String(part));
+}
+
+function toArray(fallback: Fallback, arity: 1): string[];
+function toArray(fallback: Fallback, arity: number): Array<string | string[]>;
+function toArray(fallback: Fallback, arity: number) {
+    // Only configuration files can provide multiple entries at once
+    if (Array.isArray(fallback.value) && (arity === 1 || fallback.value.some(item => Array.isArray(item)))) {
+        return fallback.value.map(value => toTuple({...fallback, value}, arity));
+    } else {
+        return [toTuple(fallback, arity)];
+    }
+}
+
+type ValueParser<T> = {
+    /**
+     * The type of the argument, shown in the usage instead of its index.
+     */
+    hint: string,
+    type: string,
+    /**
+     * Whether the values of the configuration files that aren't strings are
+     * used as they are, rather than being converted back into strings.
+     */
+    acceptRawValues?: boolean,
+    parse: (value: string, fail: (expected: string) => never) => T,
+};
+
+/**
+ * Shared implementation of the options taking a single argument which has to
+ * be parsed into another type (numbers, durations, ...).
+ */
+function makeValueOption<T>(descriptor: string, initialValue: T | undefined, opts: ValueFlags & {validator?: StrictValidator<unknown, unknown>}, parser: ValueParser<T>) {
+    const optNames = descriptor.split(`,`);
+    const nameSet = new Set(optNames);
+
+    const parse = (label: string, value: string) => parser.parse(value, expected => {
+        throw new UsageError(`Invalid value for ${label}: expected ${expected} (got ${JSON.stringify(value)})`);
+    });
+
+    return makeCommandOption({
+        metadata: {
+            type: parser.type,
+            default: initialValue,
+            validated: typeof opts.validator !== `undefined`,
+        },
+
+        definition(builder) {
+            builder.addOption({
+                names: optNames,
+
+                arity: 1,
+                hint: parser.hint,
+
+                hidden: opts.hidden,
+                required: opts.required,
+                description: opts.description,
+                env: opts.env,
+
+                complete: opts.complete,
+            });
+        },
+
+        transformer(builder, key, state, context, configuration) {
+            let currentValue = initialValue;
+
+            const fallback = getFallback(key, opts.env, context, configuration);
+            if (typeof fallback !== `undefined`) {
+                currentValue = parser.acceptRawValues && typeof fallback.value !== `string`
+                    ? fallback.value as T
+                    : parse(fallback.label, toTuple(fallback, 1));
+            }
+
+            for (const {name, value} of state.options) {
+                if (!nameSet.has(name))
+                    continue;
+
+                currentValue = parse(optNames.join(`,`), value);
+            }
+
+            if (opts.required && typeof currentValue === `undefined`)
+                throw new UsageError(`Missing required option ${optNames.join(`,`)}`);
+
+            return applyValidator(key, currentValue, opts.validator);
+        },
+    });
+}
+
+// `Number` would also accept the hexadecimal, binary, and exponent notations,
+// along with the surrounding whitespaces
+const DECIMAL_REGEX = /^[+-]?(?:\d+(?:\.\d+)?|\.\d+)$/;
+
+function parseNumber({integer = false, min, max}: NumberFlags) {
+    const kind = integer ? `an integer` : `a number`;
+
+    return (value: string, fail: (expected: string) => never) => {
+        if (!DECIMAL_REGEX.test(value))
+            fail(kind);
+
+        const number = Number(value);
+        if (!Number.isFinite(number) || (integer && !Number.isInteger(number)))
+            fail(kind);
+
+        if (typeof min !== `undefined` && number < min)
+            fail(`${kind} greater than or equal to ${min}`);
+        if (typeof max !== `undefined` && number > max)
+            fail(`${kind} lower than or equal to ${max}`);
+
+        return number;
+    };
+}
+
+const durationUnits: Record<string, number> = {
+    ms: 1,
+    s: 1000,
+    m: 60 * 1000,
+    h: 60 * 60 * 1000,
+    d: 24 * 60 * 60 * 1000,
+    w: 7 * 24 * 60 * 60 * 1000,
+};
+
+function parseDuration(value: string, fail: (expected: string) => never) {
+    // Durations can be made of several parts (for instance `1h30m`)
+    if (!/^(?:[0-9]+(?:\.[0-9]+)?(?:ms|s|m|h|d|w))+$/.test(value))
+        fail(`a duration (such as "30s" or "1h30m")`);
+
+    const partRegExp = /([0-9]+(?:\.[0-9]+)?)(ms|s|m|h|d|w)/g;
+
+    let duration = 0;
+    for (let match; (match = partRegExp.exec(value)) !== null;)
+        duration += Number(match[1]) * durationUnits[match[2]];
+
+    return Math.round(duration);
+}
+
+const sizePrefixes = [``, `k`, `m`, `g`, `t`, `p`];
+
+function parseSize(value: string, fail: (expected: string) => never) {
+    // The `KB` units are multiples of 1000 bytes, and the `KiB` ones of 1024
+    const match = value.match(/^([0-9]+(?:\.[0-9]+)?) ?(?:([kmgtp])(i?))?b?$/i);
+    if (match === null)
+        fail(`a size (such as "512KB" or "10MiB")`);
+
+    const [, size, prefix = ``, binary] = match;
+    const base = binary !== `` && typeof binary !== `undefined` ? 1024 : 1000;
+
+    // The products aren't always exact (`8.2MB` gives 8199999.999999999),
+    // so they're rounded to 15 significant digits before being checked
+    const bytes = Number((Number(size) * base ** sizePrefixes.indexOf(prefix.toLowerCase())).toPrecision(15));
+    if (!Number.isInteger(bytes))
+        fail(`a whole number of bytes`);
+
+    return bytes;
+}
+
+function setEntry<T>(record: Record<string, T>, key: string, value: T) {
+    // Assigning the `__proto__` key would change the prototype of the record
+    Object.defineProperty(record, key, {value, enumerable: true, writable: true, configurable: true});
+}
+
+function parseJson(value: string, fail: (expected: string) => never): unknown {
+    try {
+        return JSON.parse(value);
+    } catch {
+        return fail(`a JSON value`);
+    }
+}
+
 export type GeneralFlags = {
     description?: string,
     hidden?: boolean,
 };
 
-export type ArrayFlags = GeneralFlags & {
+export type EnvironmentFlags = {
+    env?: string,
+};
+
+export type CompletionFlags = {
+    complete?: CompletionProvider,
+};
+
+export type RequiredFlags = {
+    required?: boolean,
+};
+
+export type ArrayFlags = GeneralFlags & EnvironmentFlags & CompletionFlags & RequiredFlags & {
     arity?: number,
 };
 
-export type StringOptionNoBoolean<T> = GeneralFlags & {
+export type StringOptionNoBoolean<T> = GeneralFlags & EnvironmentFlags & CompletionFlags & RequiredFlags & {
     validator?: StrictValidator<unknown, T>,
     tolerateBoolean?: false,
     arity?: number,
 };
 
-export type StringOptionTolerateBoolean<T> = GeneralFlags & {
+export type StringOptionTolerateBoolean<T> = GeneralFlags & EnvironmentFlags & CompletionFlags & {
     validator?: StrictValidator<unknown, T>,
     tolerateBoolean: boolean,
     arity?: 1,
+    required?: false,
 };
 
 export type StringOption<T> =
     | StringOptionNoBoolean<T>
     | StringOptionTolerateBoolean<T>;
 
-export type StringPositionalFlags<T> = {
+export type StringPositionalFlags<T> = CompletionFlags & {
     validator?: StrictValidator<unknown, T>,
     name?: string,
     required?: boolean,
+    description?: string,
 };
 
+export type ChoicesFlags<C extends string> = {
+    choices: ReadonlyArray<C>,
+};
+
+export type StringOptionChoices<C extends string> = Omit<StringOptionNoBoolean<C>, 'validator' | 'arity'> & ChoicesFlags<C> & {
+    arity?: 1,
+};
+
+export type StringPositionalChoices<C extends string> = Omit<StringPositionalFlags<C>, 'validator'> & ChoicesFlags<C>;
+
 export type ProxyFlags = {
     name?: string,
     required?: number,
+    description?: string,
 };
 
-export type RestFlags = {
+export type RestFlags = CompletionFlags & {
     name?: string,
     required?: number,
+    description?: string,
 };
 
-export type BooleanFlags = GeneralFlags;
-export type CounterFlags = GeneralFlags;
+export type BooleanFlags = GeneralFlags & EnvironmentFlags;
+export type CounterFlags = GeneralFlags & EnvironmentFlags;
+
+export type ValueFlags = GeneralFlags & EnvironmentFlags & CompletionFlags & RequiredFlags;
+
+export type NumberFlags = ValueFlags & {
+    integer?: boolean,
+    min?: number,
+    max?: number,
+};
+
+export type JsonFlags<T> = ValueFlags & {
+    validator?: StrictValidator<unknown, T>,
+};
+
+export type MapFlags<T> = ValueFlags & {
+    /**
+     * Validator applied to each value of the map.
+     */
+    validator?: StrictValidator<unknown, T>,
+    /**
+     * What to do when the same key is set multiple times: keep the last
+     * value, or reject the command line.
+     */
+    duplicates?: `last-wins` | `error`,
+};
 
 /**
  * The usage of a Command.
@@ -166,15 +534,48 @@ export type Definition = Usage & {
      */
     options: {
         definition: string;
+        names: string[];
+        arity: number;
         description?: string;
+        env?: string;
     }[];
+
+    /**
+     * The positional arguments accepted by the command, in order.
+     */
+    positionals: PositionalDefinition[];
 };
 
+/**
+ * Prints the first page if `output` isn't set, or writes all the pages into
+ * the `output` directory otherwise.
+ */
+async function writePages(context: BaseContext, pages: {name: string, content: string}[], output: string | undefined) {
+    if (typeof output === `undefined`) {
+        context.stdout.write(pages[0].content);
+        return;
+    }
+
+    const {mkdirSync, writeFileSync} = await import(`fs`);
+    const {dirname, join} = await import(`path`);
+
+    for (const page of pages) {
+        const target = join(output, page.name);
+
+        mkdirSync(dirname(target), {recursive: true});
+        writeFileSync(target, page.content);
+
+        context.stdout.write(`${target}\n`);
+    }
+}
+
 export type CommandClass<Context extends BaseContext = BaseContext> = {
     new(): Command<Context>;
     paths?: string[][];
     schema?: LooseTest<{[key: string]: unknown}>[];
     usage?: Usage;
+    before?(command: Command<Context>): Promise<void> | void;
+    after?(command: Command<Context>, exitCode: number): Promise<number | void> | number | void;
 };
 
 export abstract class Command<Context extends BaseContext = BaseContext> {
@@ -204,6 +605,22 @@ export abstract class Command<Context extends BaseContext = BaseContext> {
      */
     static schema?: LooseTest<{[key: string]: unknown}>[];
 
+    /**
+     * Hook called right before `execute`, once the options have been
+     * populated and validated. Throwing from it aborts the execution.
+     *
+     * Static members can't refer to the context of the class, so subclasses
+     * are expected to narrow the parameter to their own command type (which
+     * `CommandClass` then checks against the context of the CLI).
+     */
+    static before?(command: Command<any>): Promise<void> | void;
+
+    /**
+     * Hook called once `execute` has returned, with its exit code. It can
+     * return a different exit code to override it.
+     */
+    static after?(command: Command<any>, exitCode: number): Promise<number | void> | number | void;
+
     /**
      * Standard function that'll get executed by `Cli#run` and `Cli#runExit`.
      * 
@@ -215,9 +632,10 @@ export abstract class Command<Context extends BaseContext = BaseContext> {
     /**
      * Standard error handler which will simply rethrow the error. Can be used
      * to add custom logic to handle errors from the command or simply return
-     * the parent class error handling.
+     * the parent class error handling. The exit code it returns (if any) is
+     * the one of the command; it defaults to 0 otherwise.
      */
-    async catch(error: any): Promise<void> {
+    async catch(error: unknown): Promise<number | void> {
         throw error;
     }
 
@@ -245,7 +663,12 @@ export abstract class Command<Context extends BaseContext = BaseContext> {
      */
     path!: string[];
 
-    async validateAndExecute(): Promise<number> {
+    /**
+     * Validates the command against its schema, then executes it wrapped by
+     * the given middlewares (the first ones being the outermost) and the
+     * `before`/`after` hooks of the command class.
+     */
+    async validateAndExecute(middlewares: Middleware<Context>[] = []): Promise<number> {
         const commandClass = this.constructor as CommandClass<Context>;
         const cascade = commandClass.schema;
 
@@ -265,12 +688,40 @@ export abstract class Command<Context extends BaseContext = BaseContext> {
             }
         }
 
-        const exitCode = await this.execute();
-        if (typeof exitCode !== `undefined`) {
+        const run = async () => {
+            if (typeof commandClass.before !== `undefined`)
+                await commandClass.before(this);
+
+            let exitCode = await this.execute();
+            if (typeof exitCode === `undefined`)
+                exitCode = 0;
+
+            if (typeof commandClass.after !== `undefined`) {
+                const override = await commandClass.after(this, exitCode);
+                if (typeof override !== `undefined`) {
+                    exitCode = override;
+                }
+            }
+
             return exitCode;
-        } else {
-            return 0;
-        }
+        };
+
+        const chain = middlewares.reduceRight<() => Promise<number>>((next, middleware) => {
+            return () => {
+                let called = false;
+
+                // Calling `next` twice would execute the command twice
+                return middleware(this, async () => {
+                    if (called)
+                        throw new Error(`A middleware cannot call next more than once`);
+
+                    called = true;
+                    return await next();
+                });
+            };
+        }, run);
+
+        return await chain();
     }
 
     /**
@@ -302,6 +753,7 @@ export abstract class Command<Context extends BaseContext = BaseContext> {
      * --foo hello --foo bar
      *     ► {"foo": ["hello", "world"]}
      */
+    static Array(descriptor: string, opts: ArrayFlags & {required: true}): CommandOptionReturn<string[]>;
     static Array(descriptor: string, opts?: ArrayFlags): CommandOptionReturn<string[] | undefined>;
     static Array(descriptor: string, initialValue: string[], opts?: ArrayFlags): CommandOptionReturn<string[]>;
     static Array(descriptor: string, initialValueBase: ArrayFlags | string[] | undefined, optsBase?: ArrayFlags) {
@@ -312,6 +764,8 @@ export abstract class Command<Context extends BaseContext = BaseContext> {
         const nameSet = new Set(optNames);
 
         return makeCommandOption({
+            metadata: {type: `${formatTupleType(arity)}[]`, default: initialValue},
+
             definition(builder) {
                 builder.addOption({
                     names: optNames,
@@ -319,23 +773,38 @@ export abstract class Command<Context extends BaseContext = BaseContext> {
                     arity,
                     
                     hidden: opts?.hidden,
+                    required: opts?.required,
                     description: opts?.description,
+                    env: opts?.env,
+
+                    complete: opts?.complete,
                 });
             },
 
-            transformer(builder, key, state) {
-                let currentValue = typeof initialValue !== `undefined`
+            transformer(builder, key, state, context, configuration) {
+                let currentValue: Array<string | string[]> | undefined = typeof initialValue !== `undefined`
                     ? [...initialValue]
                     : undefined;
 
+                let isSet = false;
+
                 for (const {name, value} of state.options) {
                     if (!nameSet.has(name))
                         continue;
 
                     currentValue = currentValue ?? [];
                     currentValue.push(value);
+
+                    isSet = true;
                 }
 
+                const fallback = getFallback(key, opts.env, context, configuration);
+                if (!isSet && typeof fallback !== `undefined`)
+                    currentValue = toArray(fallback, arity);
+
+                if (opts.required && typeof currentValue === `undefined`)
+                    throw new UsageError(`Missing required option ${optNames.join(`,`)}`);
+
                 return currentValue;
             }
         });
@@ -357,6 +826,8 @@ export abstract class Command<Context extends BaseContext = BaseContext> {
         const nameSet = new Set(optNames);
 
         return makeCommandOption({
+            metadata: {type: `boolean`, default: initialValue},
+
             definition(builder) {
                 builder.addOption({
                     names: optNames,
@@ -366,12 +837,17 @@ export abstract class Command<Context extends BaseContext = BaseContext> {
 
                     hidden: opts.hidden,
                     description: opts.description,
+                    env: opts.env,
                 });
             },
 
-            transformer(builer, key, state) {
+            transformer(builer, key, state, context, configuration) {
                 let currentValue = initialValue;
 
+                const fallback = getFallback(key, opts.env, context, configuration);
+                if (typeof fallback !== `undefined`)
+                    currentValue = toBoolean(fallback);
+
                 for (const {name, value} of state.options) {
                     if (!nameSet.has(name))
                         continue;
@@ -401,6 +877,9 @@ export abstract class Command<Context extends BaseContext = BaseContext> {
         const nameSet = new Set(optNames);
 
         return makeCommandOption({
+            // The negated forms only reset the counter
+            metadata: {type: `number`, default: initialValue, negatable: false},
+
             definition(builder) {
                 builder.addOption({
                     names: optNames,
@@ -410,12 +889,18 @@ export abstract class Command<Context extends BaseContext = BaseContext> {
 
                     hidden: opts.hidden,
                     description: opts.description,
+                    env: opts.env,
                 });
             },
 
-            transformer(builder, key, state) {
+            transformer(builder, key, state, context, configuration) {
                 let currentValue = initialValue;
 
+                // Occurrences on the command line are added on top of the fallback value
+                const fallback = getFallback(key, opts.env, context, configuration);
+                if (typeof fallback !== `undefined`)
+                    currentValue = toCounter(fallback);
+
                 for (const {name, value} of state.options) {
                     if (!nameSet.has(name))
                         continue;
@@ -444,6 +929,8 @@ export abstract class Command<Context extends BaseContext = BaseContext> {
      * command line.
      */
     static String(): CommandOptionReturn<string>;
+    static String<C extends string>(opts: Omit<StringPositionalChoices<C>, 'required'>): CommandOptionReturn<C>;
+    static String<C extends string>(opts: StringPositionalChoices<C> & {required: false}): CommandOptionReturn<C | undefined>;
     static String<T = string>(opts: Omit<StringPositionalFlags<T>, 'required'>): CommandOptionReturn<T>;
     static String<T = string>(opts: StringPositionalFlags<T> & {required: false}): CommandOptionReturn<T | undefined>;
     static String<T = string>(opts: StringPositionalFlags<T>): CommandOptionReturn<T | undefined>;
@@ -452,12 +939,19 @@ export abstract class Command<Context extends BaseContext = BaseContext> {
      * Used to annotate string options. Such options will be typed as strings
      * unless they are provided a schema, which will then be used for coercion.
      * 
+     * Options declaring `choices` only accept the listed values, and are
+     * typed accordingly.
+     *
      * @example
      * --foo=hello --bar world
      *     ► {"foo": "hello", "bar": "world"}
      */
+    static String<C extends string>(descriptor: string, opts: StringOptionChoices<C> & {required: true}): CommandOptionReturn<C>;
+    static String<C extends string>(descriptor: string, opts: StringOptionChoices<C>): CommandOptionReturn<C | undefined>;
+    static String<C extends string>(descriptor: string, initialValue: C, opts: StringOptionChoices<C>): CommandOptionReturn<C>;
     static String<T = string>(descriptor: string, opts?: StringOptionTolerateBoolean<T>): CommandOptionReturn<T | boolean | undefined>;
     static String<T = string>(descriptor: string, initialValue: string | boolean, opts?: StringOptionTolerateBoolean<T>): CommandOptionReturn<T | boolean>;
+    static String<T = string>(descriptor: string, opts: StringOptionNoBoolean<T> & {required: true}): CommandOptionReturn<T>;
     static String<T = string>(descriptor: string, opts?: StringOptionNoBoolean<T>): CommandOptionReturn<T | undefined>;
     static String<T = string>(descriptor: string, initialValue: string, opts?: StringOptionNoBoolean<T>): CommandOptionReturn<T>;
 
@@ -473,18 +967,28 @@ export abstract class Command<Context extends BaseContext = BaseContext> {
     /**
      * @internal
      */
+    static StringOption<C extends string>(descriptor: string, opts: StringOptionChoices<C> & {required: true}): CommandOptionReturn<C>;
+    static StringOption<C extends string>(descriptor: string, opts: StringOptionChoices<C>): CommandOptionReturn<C | undefined>;
+    static StringOption<C extends string>(descriptor: string, initialValue: C, opts: StringOptionChoices<C>): CommandOptionReturn<C>;
     static StringOption<T = string>(descriptor: string, opts?: StringOptionTolerateBoolean<T>): CommandOptionReturn<T | boolean | undefined>;
     static StringOption<T = string>(descriptor: string, initialValue: string | boolean, opts?: StringOptionTolerateBoolean<T>): CommandOptionReturn<T | boolean>;
+    static StringOption<T = string>(descriptor: string, opts: StringOptionNoBoolean<T> & {required: true}): CommandOptionReturn<T>;
     static StringOption<T = string>(descriptor: string, opts?: StringOptionNoBoolean<T>): CommandOptionReturn<T | undefined>;
     static StringOption<T = string>(descriptor: string, initialValue: string, opts?: StringOptionNoBoolean<T>): CommandOptionReturn<T>;
-    static StringOption<T = string>(descriptor: string, initialValueBase: StringOption<T> | string | boolean | undefined, optsBase?: StringOption<T>) {
+    static StringOption<T = string>(descriptor: string, initialValueBase: StringOption<T> | string | boolean | undefined, optsBase?: StringOption<T> & Partial<ChoicesFlags<string>>) {
         const [initialValue, opts] = rerouteArguments(initialValueBase, optsBase ?? {});
-        const {arity = 1} = opts;
+        const {arity = 1, choices} = opts;
 
         const optNames = descriptor.split(`,`);
         const nameSet = new Set(optNames);
 
         return makeCommandOption({
+            metadata: {
+                type: typeof choices !== `undefined` ? formatChoicesType(choices) : opts.tolerateBoolean ? `string | boolean` : formatTupleType(arity),
+                default: initialValue,
+                validated: typeof opts.validator !== `undefined`,
+            },
+
             definition(builder) {
                 builder.addOption({
                     names: optNames,
@@ -492,12 +996,24 @@ export abstract class Command<Context extends BaseContext = BaseContext> {
                     arity: opts.tolerateBoolean ? 0 : arity,
 
                     hidden: opts.hidden,
+                    required: opts.required,
                     description: opts.description,
+                    env: opts.env,
+                    choices: choices?.slice(),
+
+                    complete: opts.complete ?? (typeof choices !== `undefined` ? Command.Completions.Choices(choices) : undefined),
                 });
             },
 
-            transformer(builder, key, state) {
-                let currentValue = initialValue;
+            transformer(builder, key, state, context, configuration) {
+                let currentValue: string | string[] | boolean | undefined = initialValue;
+
+                const fallback = getFallback(key, opts.env, context, configuration);
+                if (typeof fallback !== `undefined`) {
+                    currentValue = opts.tolerateBoolean && typeof fallback.value === `boolean`
+                        ? fallback.value
+                        : toTuple(fallback, arity);
+                }
 
                 for (const {name, value} of state.options) {
                     if (!nameSet.has(name))
@@ -506,6 +1022,11 @@ export abstract class Command<Context extends BaseContext = BaseContext> {
                     currentValue = value;
                 }
 
+                if (opts.required && typeof currentValue === `undefined`)
+                    throw new UsageError(`Missing required option ${optNames.join(`,`)}`);
+
+                checkChoice(optNames.join(`,`), currentValue, choices);
+
                 return applyValidator(key, currentValue, opts.validator);
             }
         });
@@ -515,17 +1036,24 @@ export abstract class Command<Context extends BaseContext = BaseContext> {
      * @internal
      */
     static StringPositional(): CommandOptionReturn<string>;
+    static StringPositional<C extends string>(opts: Omit<StringPositionalChoices<C>, 'required'>): CommandOptionReturn<C>;
+    static StringPositional<C extends string>(opts: StringPositionalChoices<C> & {required: false}): CommandOptionReturn<C | undefined>;
     static StringPositional<T = string>(opts: Omit<StringPositionalFlags<T>, 'required'>): CommandOptionReturn<T>;
     static StringPositional<T = string>(opts: StringPositionalFlags<T> & {required: false}): CommandOptionReturn<T | undefined>;
     static StringPositional<T = string>(opts: StringPositionalFlags<T>): CommandOptionReturn<T | undefined>;
-    static StringPositional<T = string>(opts: StringPositionalFlags<T> = {}) {
-        const {required = true} = opts;
+    static StringPositional<T = string>(opts: StringPositionalFlags<T> & Partial<ChoicesFlags<string>> = {}) {
+        const {required = true, choices} = opts;
 
         return makeCommandOption({
+            metadata: {type: typeof choices !== `undefined` ? formatChoicesType(choices) : `string`, validated: typeof opts.validator !== `undefined`},
+
             definition(builder, key) {
                 builder.addPositional({
                     name: opts.name ?? key,
                     required: opts.required,
+                    complete: opts.complete ?? (typeof choices !== `undefined` ? Command.Completions.Choices(choices) : undefined),
+                    description: opts.description,
+                    choices: choices?.slice(),
                 });
             },
 
@@ -549,12 +1077,192 @@ export abstract class Command<Context extends BaseContext = BaseContext> {
                     // We remove the positional from the list
                     const [positional] = state.positionals.splice(i, 1);
 
-                    return positional.value;
+                    checkChoice(opts.name ?? key, positional.value, choices);
+
+                    return applyValidator(key, positional.value, opts.validator);
                 }
             }
         });
     }
 
+    /**
+     * Used to annotate numeric options. The value is rejected if it isn't a
+     * number, or if it doesn't satisfy the `integer`, `min`, and `max` flags.
+     *
+     * @example
+     * --jobs 4 --ratio=0.5
+     *     ► {"jobs": 4, "ratio": 0.5}
+     */
+    static Number(descriptor: string, opts: NumberFlags & {required: true}): CommandOptionReturn<number>;
+    static Number(descriptor: string, opts?: NumberFlags): CommandOptionReturn<number | undefined>;
+    static Number(descriptor: string, initialValue: number, opts?: NumberFlags): CommandOptionReturn<number>;
+    static Number(descriptor: string, initialValueBase: NumberFlags | number | undefined, optsBase?: NumberFlags) {
+        const [initialValue, opts] = rerouteArguments(initialValueBase, optsBase ?? {});
+
+        return makeValueOption(descriptor, initialValue, opts, {
+            hint: opts.integer ? `int` : `number`,
+            type: `number`,
+            parse: parseNumber(opts),
+        });
+    }
+
+    /**
+     * Used to annotate duration options, whose values are made of numbers
+     * followed by a unit (`ms`, `s`, `m`, `h`, `d`, or `w`). They are
+     * converted into milliseconds.
+     *
+     * @example
+     * --timeout 30s --interval 1h30m
+     *     ► {"timeout": 30000, "interval": 5400000}
+     */
+    static Duration(descriptor: string, opts: ValueFlags & {required: true}): CommandOptionReturn<number>;
+    static Duration(descriptor: string, opts?: ValueFlags): CommandOptionReturn<number | undefined>;
+    static Duration(descriptor: string, initialValue: number, opts?: ValueFlags): CommandOptionReturn<number>;
+    static Duration(descriptor: string, initialValueBase: ValueFlags | number | undefined, optsBase?: ValueFlags) {
+        const [initialValue, opts] = rerouteArguments(initialValueBase, optsBase ?? {});
+
+        return makeValueOption(descriptor, initialValue, opts, {
+            hint: `duration`,
+            type: `number`,
+            parse: parseDuration,
+        });
+    }
+
+    /**
+     * Used to annotate size options, whose values are numbers optionally
+     * followed by a unit (`KB`, `MB`, ... for the multiples of 1000 bytes,
+     * and `KiB`, `MiB`, ... for the multiples of 1024 bytes). They are
+     * converted into bytes, and rejected if that isn't a whole number.
+     *
+     * @example
+     * --max-size 10MB --chunk-size 64KiB
+     *     ► {"maxSize": 10000000, "chunkSize": 65536}
+     */
+    static Size(descriptor: string, opts: ValueFlags & {required: true}): CommandOptionReturn<number>;
+    static Size(descriptor: string, opts?: ValueFlags): CommandOptionReturn<number | undefined>;
+    static Size(descriptor: string, initialValue: number, opts?: ValueFlags): CommandOptionReturn<number>;
+    static Size(descriptor: string, initialValueBase: ValueFlags | number | undefined, optsBase?: ValueFlags) {
+        const [initialValue, opts] = rerouteArguments(initialValueBase, optsBase ?? {});
+
+        return makeValueOption(descriptor, initialValue, opts, {
+            hint: `size`,
+            type: `number`,
+            parse: parseSize,
+        });
+    }
+
+    /**
+     * Used to annotate options whose values are JSON documents. They can be
+     * checked (and typed) through a validator.
+     *
+     * @example
+     * --data '{"name": "foo"}'
+     *     ► {"data": {"name": "foo"}}
+     */
+    static Json<T = unknown>(descriptor: string, opts: JsonFlags<T> & {required: true}): CommandOptionReturn<T>;
+    static Json<T = unknown>(descriptor: string, opts?: JsonFlags<T>): CommandOptionReturn<T | undefined>;
+    static Json<T = unknown>(descriptor: string, opts: JsonFlags<T> = {}) {
+        return makeValueOption(descriptor, undefined, opts, {
+            hint: `json`,
+            type: `unknown`,
+            acceptRawValues: true,
+            parse: parseJson,
+        });
+    }
+
+    /**
+     * Used to annotate options collecting `KEY=VALUE` pairs into a record. The
+     * values can be checked (and coerced) by a validator, and setting the
+     * same key multiple times either keeps the last value or fails
+     * depending on the `duplicates` flag.
+     *
+     * @example
+     * --env FOO=bar --env BAZ=qux
+     *     ► {"env": {"FOO": "bar", "BAZ": "qux"}}
+     */
+    static Map<T = string>(descriptor: string, opts: MapFlags<T> & {required: true}): CommandOptionReturn<Record<string, T>>;
+    static Map<T = string>(descriptor: string, opts?: MapFlags<T>): CommandOptionReturn<Record<string, T> | undefined>;
+    static Map<T = string>(descriptor: string, opts: MapFlags<T> = {}) {
+        const {duplicates = `last-wins`} = opts;
+
+        const optNames = descriptor.split(`,`);
+        const nameSet = new Set(optNames);
+
+        const addPair = (record: Record<string, unknown>, label: string, key: string, pair: string) => {
+            const match = pair.match(BINDING_REGEX);
+            if (match === null)
+                throw new UsageError(`Invalid value for ${label}: expected a KEY=VALUE pair (got ${JSON.stringify(pair)})`);
+
+            const [, name, value] = match;
+
+            if (duplicates === `error` && Object.prototype.hasOwnProperty.call(record, name))
+                throw new UsageError(`Invalid value for ${label}: the ${name} key is set multiple times`);
+
+            setEntry(record, name, applyValidator(`${key}.${name}`, value, opts.validator));
+        };
+
+        const addEntries = (record: Record<string, unknown>, key: string, fallback: Fallback) => {
+            // Configuration files can provide the records as they are, in which
+            // case the validator gets the values that aren't strings as-is
+            if (typeof fallback.value === `object` && fallback.value !== null && !Array.isArray(fallback.value)) {
+                for (const [name, value] of Object.entries(fallback.value)) {
+                    const entry = typeof value !== `string` && typeof opts.validator !== `undefined`
+                        ? value
+                        : toTuple({...fallback, value}, 1);
+
+                    setEntry(record, name, applyValidator(`${key}.${name}`, entry, opts.validator));
+                }
+            } else {
+                for (const pair of toArray(fallback, 1)) {
+                    addPair(record, fallback.label, key, pair);
+                }
+            }
+        };
+
+        return makeCommandOption({
+            metadata: {type: `Record<string, string>`, validated: typeof opts.validator !== `undefined`},
+
+            definition(builder) {
+                builder.addOption({
+                    names: optNames,
+
+                    arity: 1,
+                    hint: `key=value`,
+
+                    hidden: opts.hidden,
+                    required: opts.required,
+                    description: opts.description,
+                    env: opts.env,
+
+                    complete: opts.complete,
+                });
+            },
+
+            transformer(builder, key, state, context, configuration) {
+                let currentValue: Record<string, unknown> | undefined;
+
+                for (const {name, value} of state.options) {
+                    if (!nameSet.has(name))
+                        continue;
+
+                    currentValue = currentValue ?? {};
+                    addPair(currentValue, optNames.join(`,`), key, value);
+                }
+
+                const fallback = getFallback(key, opts.env, context, configuration);
+                if (typeof currentValue === `undefined` && typeof fallback !== `undefined`) {
+                    currentValue = {};
+                    addEntries(currentValue, key, fallback);
+                }
+
+                if (opts.required && typeof currentValue === `undefined`)
+                    throw new UsageError(`Missing required option ${optNames.join(`,`)}`);
+
+                return currentValue;
+            }
+        });
+    }
+
     /**
      * Used to annotate that the command wants to retrieve all trailing
      * arguments that cannot be tied to a declared option.
@@ -570,10 +1278,13 @@ export abstract class Command<Context extends BaseContext = BaseContext> {
      */
     static Proxy(opts: ProxyFlags = {}) {
         return makeCommandOption({
+            metadata: {type: `string[]`},
+
             definition(builder, key) {
                 builder.addProxy({
                     name: opts.name ?? key,
                     required: opts.required,
+                    description: opts.description,
                 });
             },
 
@@ -598,10 +1309,14 @@ export abstract class Command<Context extends BaseContext = BaseContext> {
      */
     static Rest(opts: RestFlags = {}) {
         return makeCommandOption({
+            metadata: {type: `string[]`},
+
             definition(builder, key) {
                 builder.addRest({
                     name: opts.name ?? key,
                     required: opts.required,
+                    complete: opts.complete,
+                    description: opts.description,
                 });
             },
 
@@ -632,6 +1347,36 @@ export abstract class Command<Context extends BaseContext = BaseContext> {
         });
     }
 
+    /**
+     * A list of completion providers covering the most common needs. They
+     * can be passed to the `complete` flag of the option declarators.
+     *
+     * @example
+     * environment = Command.String(`--env`, {complete: Command.Completions.Choices([`staging`, `production`])});
+     */
+    static Completions = {
+        /**
+         * Suggests the files and directories matching the partial path.
+         */
+        Files(): CompletionProvider {
+            return partial => completePaths(partial, {directoriesOnly: false});
+        },
+
+        /**
+         * Suggests the directories matching the partial path.
+         */
+        Directories(): CompletionProvider {
+            return partial => completePaths(partial, {directoriesOnly: true});
+        },
+
+        /**
+         * Suggests the values from a fixed list.
+         */
+        Choices(choices: ReadonlyArray<string>): CompletionProvider {
+            return partial => choices.filter(choice => choice.startsWith(partial));
+        },
+    };
+
     /**
      * A list of useful semi-opinionated command entries that have to be registered manually.
      *
@@ -642,6 +1387,34 @@ export abstract class Command<Context extends BaseContext = BaseContext> {
      * cli.register(Command.Entries.Version);
      */
     static Entries = {
+        /**
+         * A command that prints the shell completion script for the binary
+         * and answers the completion queries that this script sends back.
+         *
+         * Paths: `--clipanion=completion`
+         *
+         * @example
+         * eval "$(mytool --clipanion=completion bash)"
+         */
+        Completion: class CompletionCommand extends Command<any> {
+            static paths = [[`--clipanion=completion`]];
+
+            cword = Command.String(`--cword`, {hidden: true});
+
+            shell = Command.String();
+            words = Command.Proxy();
+
+            async execute() {
+                if (typeof this.cword === `undefined`) {
+                    this.context.stdout.write(this.cli.completionScript(this.shell));
+                } else {
+                    for (const candidate of await this.cli.completions(this.words, Number(this.cword))) {
+                        this.context.stdout.write(`${candidate}\n`);
+                    }
+                }
+            }
+        },
+
         /**
          * A command that prints the clipanion definitions.
          */
@@ -652,6 +1425,25 @@ export abstract class Command<Context extends BaseContext = BaseContext> {
             }
         },
 
+        /**
+         * A command that prints how the command line following it gets
+         * parsed (`cli.explain(args)`).
+         *
+         * Paths: `--clipanion=explain`
+         *
+         * @example
+         * mytool --clipanion=explain install --force
+         */
+        Explain: class ExplainCommand extends Command<any> {
+            static paths = [[`--clipanion=explain`]];
+
+            args = Command.Proxy();
+
+            async execute() {
+                this.context.stdout.write(`${JSON.stringify(this.cli.explain(this.args), null, 2)}\n`);
+            }
+        },
+
         /**
          * A command that prints the usage of all commands.
          *
@@ -664,6 +1456,64 @@ export abstract class Command<Context extends BaseContext = BaseContext> {
             }
         },
 
+        /**
+         * A command that prints the index man page of the binary, or writes
+         * all its man pages into the given directory.
+         *
+         * Paths: `--clipanion=manpage`
+         */
+        Manpage: class ManpageCommand extends Command<any> {
+            static paths = [[`--clipanion=manpage`]];
+
+            output = Command.String(`-o,--output`, {description: `The directory where the man pages will be written`});
+
+            async execute() {
+                await writePages(this.context, this.cli.manpage(), this.output);
+            }
+        },
+
+        /**
+         * A command that prints the index page of the Markdown documentation
+         * of the binary, or writes all its pages into the given directory.
+         *
+         * Paths: `--clipanion=markdown`
+         */
+        Markdown: class MarkdownCommand extends Command<any> {
+            static paths = [[`--clipanion=markdown`]];
+
+            output = Command.String(`-o,--output`, {description: `The directory where the pages will be written`});
+
+            async execute() {
+                await writePages(this.context, this.cli.markdown(), this.output);
+            }
+        },
+
+        /**
+         * A command that prints the JSON description of all the commands of
+         * the binary (`cli.schema()`).
+         *
+         * Paths: `--clipanion=schema`
+         */
+        Schema: class SchemaCommand extends Command<any> {
+            static paths = [[`--clipanion=schema`]];
+            async execute() {
+                this.context.stdout.write(`${JSON.stringify(this.cli.schema(), null, 2)}\n`);
+            }
+        },
+
+        /**
+         * A command that starts an interactive session, running each line
+         * typed by the user as a command of the binary.
+         *
+         * Paths: `shell`
+         */
+        Shell: class ShellCommand extends Command<any> {
+            static paths = [[`shell`]];
+            async execute() {
+                return await this.cli.repl();
+            }
+        },
+
         /**
          * A command that prints the version of the binary (`cli.binaryVersion`).
          *
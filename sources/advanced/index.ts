@@ -1,6 +1,15 @@
 export {Command} from './Command'
 
-export {BaseContext, Cli, CliOptions} from './Cli';
-export {CommandClass, Usage, Definition} from './Command';
+export {BaseContext, Cli, CliOptions, CommandManifest, LazyCommand, Middleware} from './Cli';
+export {CommandClass, CommandOptionMetadata, Usage, Definition} from './Command';
+export {CompletionProvider} from '../core';
+export {ConfigurationSource, makeRcFileSource} from '../configuration';
+export {Explanation, ExplanationSelection, ExplanationState, ExplanationStep} from '../explain';
+export {LintCode, LintDiagnostic} from '../lint';
+export {Manpage} from '../manpage';
+export {MarkdownPage} from '../markdown';
+export {BreakingChange, BreakingChangeKind, CliSchema, CommandSchema, OptionSchema, PositionalSchema, findBreakingChanges} from '../schema';
 
-export {UsageError} from '../errors';
+export {TestOptions, TestResult, expectAmbiguousSyntax, expectParseError, expectUnknownSyntax, parseCli, runCli} from './testing';
+
+export {AmbiguousSyntaxError, ErrorClass, ErrorMeta, JsonError, UnknownSyntaxError, UsageError} from '../errors';
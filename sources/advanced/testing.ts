@@ -0,0 +1,139 @@
+import {PassThrough, Readable}                   from 'stream';
+
+import {AmbiguousSyntaxError, UnknownSyntaxError} from '../errors';
+
+import {BaseContext, Cli}                        from './Cli';
+import {Command}                                 from './Command';
+
+export type TestOptions<Context extends BaseContext> = {
+    /**
+     * The content of the input stream, or the stream itself.
+     *
+     * @default
+     * ``
+     */
+    stdin?: string | Readable;
+
+    /**
+     * The environment variables. Unlike `Cli.defaultContext`, they don't
+     * default to `process.env`, so that the tests don't depend on the
+     * environment they run in.
+     *
+     * @default
+     * {}
+     */
+    env?: Record<string, string | undefined>;
+
+    /**
+     * The fields of the custom context, if any (the option is required when
+     * some of them are), along with the optional `cwd` and `signal`. The
+     * standard streams and the environment are set through the other options.
+     */
+    context?: Omit<Context, keyof BaseContext> & Pick<BaseContext, 'cwd' | 'signal'>;
+};
+
+/**
+ * The options of the helpers, which must include the custom context when it
+ * adds required fields to `BaseContext` (the commands would otherwise see
+ * them as `undefined`).
+ */
+type TestArgs<Context extends BaseContext, Options extends {context?: unknown}> = {} extends Omit<Context, keyof BaseContext>
+    ? [opts?: Options]
+    : [opts: Options & Required<Pick<Options, 'context'>>];
+
+export type TestResult = {
+    exitCode: number;
+    stdout: string;
+    stderr: string;
+};
+
+async function readStream(stream: Readable) {
+    const chunks: Buffer[] = [];
+
+    for await (const chunk of stream)
+        chunks.push(Buffer.from(chunk));
+
+    return Buffer.concat(chunks).toString();
+}
+
+/**
+ * Runs a command line in memory, and returns its exit code along with what
+ * it wrote on its standard streams.
+ *
+ * @example
+ * const {exitCode, stdout} = await runCli(cli, [`install`, `--force`]);
+ */
+export function runCli<Context extends BaseContext>(cli: Cli<Context>, argv: string[], ...opts: TestArgs<Context, TestOptions<Context>>): Promise<TestResult>;
+export async function runCli(cli: Cli, argv: string[], {stdin = ``, env = {}, context}: TestOptions<BaseContext> = {}): Promise<TestResult> {
+    const stdout = new PassThrough();
+    const stderr = new PassThrough();
+
+    const stdoutPromise = readStream(stdout);
+    const stderrPromise = readStream(stderr);
+
+    const baseContext: BaseContext = {
+        stdin: typeof stdin === `string` ? Readable.from(stdin !== `` ? [stdin] : []) : stdin,
+        stdout,
+        stderr,
+        env,
+    };
+
+    const exitCode = await cli.run(argv, {...context, ...baseContext});
+
+    stdout.end();
+    stderr.end();
+
+    return {
+        exitCode,
+        stdout: await stdoutPromise,
+        stderr: await stderrPromise,
+    };
+}
+
+/**
+ * Parses a command line without executing the selected command, and returns
+ * it with its options populated. Like `Cli#process`, it throws if the
+ * selected command has been registered lazily and hasn't been loaded yet.
+ */
+export function parseCli<Context extends BaseContext>(cli: Cli<Context>, argv: string[], ...opts: TestArgs<Context, Omit<TestOptions<Context>, 'stdin'>>): Command<Context>;
+export function parseCli(cli: Cli, argv: string[], {env = {}, context}: Omit<TestOptions<BaseContext>, 'stdin'> = {}): Command<BaseContext> {
+    return cli.process(argv, {env, ...context});
+}
+
+/**
+ * Returns the error thrown when parsing a command line, or throws if the
+ * command line gets parsed successfully.
+ */
+export function expectParseError<Context extends BaseContext>(cli: Cli<Context>, argv: string[], ...opts: TestArgs<Context, Omit<TestOptions<Context>, 'stdin'>>): Error {
+    try {
+        parseCli(cli, argv, ...opts);
+    } catch (error) {
+        return error;
+    }
+
+    throw new Error(`Expected ${JSON.stringify(argv)} to be rejected, but it got parsed successfully`);
+}
+
+/**
+ * Returns the `UnknownSyntaxError` thrown when parsing a command line, so
+ * that its `candidates` and `suggestions` can be checked.
+ */
+export function expectUnknownSyntax<Context extends BaseContext>(cli: Cli<Context>, argv: string[], ...opts: TestArgs<Context, Omit<TestOptions<Context>, 'stdin'>>): UnknownSyntaxError {
+    const error = expectParseError(cli, argv, ...opts);
+    if (!(error instanceof UnknownSyntaxError))
+        throw new Error(`Expected ${JSON.stringify(argv)} to be rejected with an UnknownSyntaxError, got ${error.name}: ${error.message}`);
+
+    return error;
+}
+
+/**
+ * Returns the `AmbiguousSyntaxError` thrown when parsing a command line, so
+ * that its `usages` can be checked.
+ */
+export function expectAmbiguousSyntax<Context extends BaseContext>(cli: Cli<Context>, argv: string[], ...opts: TestArgs<Context, Omit<TestOptions<Context>, 'stdin'>>): AmbiguousSyntaxError {
+    const error = expectParseError(cli, argv, ...opts);
+    if (!(error instanceof AmbiguousSyntaxError))
+        throw new Error(`Expected ${JSON.stringify(argv)} to be rejected with an AmbiguousSyntaxError, got ${error.name}: ${error.message}`);
+
+    return error;
+}
@@ -0,0 +1,89 @@
+import {UsageError} from './errors';
+
+export type CompletionShell = `bash` | `zsh` | `fish`;
+
+export const COMPLETION_SHELLS: CompletionShell[] = [`bash`, `zsh`, `fish`];
+
+function getFunctionName(binaryName: string) {
+    return `_${binaryName.replace(/[^a-zA-Z0-9_]/g, `_`)}_completions`;
+}
+
+/**
+ * Generates a script that, once sourced by the given shell, will query the
+ * binary through `--clipanion=completion` each time the user presses tab.
+ *
+ * The binary receives the index of the word under the cursor (`--cword`)
+ * and the full list of words, and is expected to print one candidate per
+ * line.
+ */
+export function formatCompletionScript(shell: string, {binaryName}: {binaryName: string}) {
+    const fn = getFunctionName(binaryName);
+
+    switch (shell) {
+        case `bash`: {
+            return [
+                `${fn}() {`,
+                `    local IFS=$'\\n' words cword`,
+                ``,
+                `    # Bash splits the words on \`=\` and \`:\`, which would separate the`,
+                `    # options from their bound values (\`--foo=bar\`)`,
+                `    if declare -F _get_comp_words_by_ref >/dev/null; then`,
+                `        _get_comp_words_by_ref -n =: words cword`,
+                `    else`,
+                `        words=("\${COMP_WORDS[@]}")`,
+                `        cword=$COMP_CWORD`,
+                `        while [[ $cword -gt 0 && ( "\${words[cword]}" == =* || "\${words[cword - 1]}" == *= ) ]]; do`,
+                `            words[cword - 1]+="\${words[cword]}"`,
+                `            unset "words[cword]"`,
+                `            cword=$((cword - 1))`,
+                `        done`,
+                `        words=("\${words[@]:0:cword + 1}")`,
+                `    fi`,
+                ``,
+                `    COMPREPLY=($(${binaryName} --clipanion=completion --cword="$cword" bash "\${words[@]}" 2>/dev/null))`,
+                ``,
+                `    # Readline only replaces what follows the last word break`,
+                `    local cur="\${words[cword]}"`,
+                `    if [[ "$cur" == *[=:]* ]]; then`,
+                `        local prefix="\${cur%"\${cur##*[=:]}"}"`,
+                `        COMPREPLY=("\${COMPREPLY[@]#"$prefix"}")`,
+                `    fi`,
+                `}`,
+                ``,
+                `complete -o default -F ${fn} ${binaryName}`,
+                ``,
+            ].join(`\n`);
+        } break;
+
+        case `zsh`: {
+            return [
+                `#compdef ${binaryName}`,
+                ``,
+                `${fn}() {`,
+                `    local -a candidates`,
+                `    candidates=(\${(f)"$(${binaryName} --clipanion=completion --cword="$((CURRENT - 1))" zsh "\${words[@]}" 2>/dev/null)"})`,
+                `    compadd -a candidates`,
+                `}`,
+                ``,
+                `compdef ${fn} ${binaryName}`,
+                ``,
+            ].join(`\n`);
+        } break;
+
+        case `fish`: {
+            return [
+                `function ${fn}`,
+                `    set -l tokens (commandline -opc) (commandline -ct)`,
+                `    ${binaryName} --clipanion=completion --cword=(math (count $tokens) - 1) fish $tokens 2>/dev/null`,
+                `end`,
+                ``,
+                `complete -c ${binaryName} -f -a '(${fn})'`,
+                ``,
+            ].join(`\n`);
+        } break;
+
+        default: {
+            throw new UsageError(`Unsupported shell "${shell}" (expected one of ${COMPLETION_SHELLS.join(`, `)})`);
+        } break;
+    }
+}
@@ -0,0 +1,128 @@
+import {existsSync, readFileSync} from 'fs';
+import {dirname, join, resolve}   from 'path';
+
+import {UsageError}               from './errors';
+
+export type ConfigurationContext = {
+    cwd?: string;
+    env?: Record<string, string | undefined>;
+};
+
+export type ConfigurationSource = {
+    /**
+     * Returns the settings provided by the source along with a label
+     * describing where they come from (typically a file path), or `null` if
+     * the source isn't available.
+     */
+    load(context: ConfigurationContext): {origin: string, values: Record<string, unknown>} | null;
+};
+
+/**
+ * The settings resolved from all the configuration sources, indexed by the
+ * property name of the options they apply to.
+ */
+export type Configuration = Map<string, {value: unknown, origin: string}>;
+
+export function resolveConfiguration(sources: ConfigurationSource[], context: ConfigurationContext) {
+    const configuration: Configuration = new Map();
+
+    // The first sources take precedence over the next ones
+    for (const source of sources) {
+        const result = source.load(context);
+        if (result === null)
+            continue;
+
+        for (const [key, value] of Object.entries(result.values)) {
+            if (!configuration.has(key)) {
+                configuration.set(key, {value, origin: result.origin});
+            }
+        }
+    }
+
+    return configuration;
+}
+
+function parseScalar(value: string) {
+    if (value.startsWith(`"`) && value.endsWith(`"`) && value.length >= 2)
+        return JSON.parse(value);
+    if (value.startsWith(`'`) && value.endsWith(`'`) && value.length >= 2)
+        return value.slice(1, -1);
+
+    if (value === `true`)
+        return true;
+    if (value === `false`)
+        return false;
+
+    if (/^-?[0-9]+(\.[0-9]+)?$/.test(value))
+        return Number(value);
+
+    return value;
+}
+
+/**
+ * Parses the content of an rc file. Both JSON objects and flat YAML-like
+ * files (`key: value` lines, with `#` comments) are supported.
+ */
+export function parseRcFile(content: string, origin: string) {
+    if (/^\s*\{/.test(content)) {
+        let data: unknown;
+        try {
+            data = JSON.parse(content);
+        } catch (error) {
+            throw new UsageError(`Invalid configuration file (${origin}): ${error.message}`);
+        }
+
+        if (typeof data !== `object` || data === null || Array.isArray(data))
+            throw new UsageError(`Invalid configuration file (${origin}): expected an object`);
+
+        return data as Record<string, unknown>;
+    }
+
+    const values: Record<string, unknown> = {};
+    const lines = content.split(/\r?\n/);
+
+    for (let t = 0; t < lines.length; ++t) {
+        const line = lines[t].replace(/(^|\s)#.*$/, ``).trim();
+        if (line === ``)
+            continue;
+
+        const match = line.match(/^([^\s:=]+)\s*[:=]\s*(.*)$/);
+        if (!match)
+            throw new UsageError(`Invalid configuration file (${origin}): unexpected content on line ${t + 1}`);
+
+        const [, key, value] = match;
+
+        try {
+            values[key] = parseScalar(value);
+        } catch (error) {
+            throw new UsageError(`Invalid configuration file (${origin}): ${error.message} on line ${t + 1}`);
+        }
+    }
+
+    return values;
+}
+
+/**
+ * Creates a configuration source reading its settings from the closest file
+ * named `filename`, starting from the `cwd` of the context and walking up
+ * the directory hierarchy.
+ */
+export function makeRcFileSource({filename}: {filename: string}): ConfigurationSource {
+    return {
+        load({cwd = process.cwd()}) {
+            let current = resolve(cwd);
+
+            while (true) {
+                const candidate = join(current, filename);
+                if (existsSync(candidate))
+                    return {origin: candidate, values: parseRcFile(readFileSync(candidate, `utf8`), candidate)};
+
+                const parent = dirname(current);
+                if (parent === current)
+                    return null;
+
+                current = parent;
+            }
+        },
+    };
+}
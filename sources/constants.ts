@@ -7,6 +7,10 @@ export const END_OF_INPUT = `\u0000`;
 
 export const HELP_COMMAND_INDEX = -1;
 
+// Must be bumped whenever the format of the compiled machines changes, so
+// that the machines serialized by older releases stop being loaded
+export const MACHINE_FORMAT_VERSION = 1;
+
 export const HELP_REGEX = /^(-h|--help)(?:=([0-9]+))?$/;
 export const OPTION_REGEX = /^(--[a-z]+(?:-[a-z]+)*|-[a-zA-Z]+)$/;
 export const BATCH_REGEX = /^-[a-zA-Z]{2,}$/;
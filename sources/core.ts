@@ -22,6 +22,29 @@ export type StateMachine = {
     nodes: Node[];
 };
 
+export type MachineBranch = {
+    node: number;
+    state: RunState;
+};
+
+/**
+ * Called after each segment of the input has been processed, with all the
+ * branches it led to and the ones kept for the next segment (the others
+ * having a shorter path than the best ones).
+ */
+export type MachineTracer = (segment: string, branches: MachineBranch[], keptBranches: MachineBranch[]) => void;
+
+export type SelectionCriterion = `path` | `positionals` | `help`;
+
+/**
+ * Called after each criterion used to select the final state has been
+ * applied: first the length of the path, then the number of required
+ * positionals and options, and finally the aggregation of the help requests
+ * into a single state (the help requests being merged rather than
+ * discarded).
+ */
+export type SelectionTracer = (criterion: SelectionCriterion, states: RunState[], keptStates: RunState[]) => void;
+
 export type RunState = {
     candidateUsage: string | null;
     errorMessage: string | null;
@@ -137,9 +160,134 @@ export function debugMachine(machine: StateMachine, {prefix = ``}: {prefix?: str
     }
 }
 
-export function runMachineInternal(machine: StateMachine, input: string[], partial: boolean = false) {
+/**
+ * Returns the index of the command owning each node of a machine compiled by
+ * `CliBuilder`, or `null` for the shared nodes. This relies on the nodes of
+ * each command being stored contiguously by `makeAnyOfMachine`, starting with
+ * the one consuming the start of the input.
+ */
+export function getNodeOwners(machine: StateMachine) {
+    const owners: (number | null)[] = [];
+
+    let owner = -1;
+    for (let t = 0; t < machine.nodes.length; ++t) {
+        if (t <= NODE_ERRORED) {
+            owners.push(null);
+            continue;
+        }
+
+        if (Object.prototype.hasOwnProperty.call(machine.nodes[t].statics, START_OF_INPUT))
+            owner += 1;
+
+        owners.push(owner);
+    }
+
+    return owners;
+}
+
+function formatDotSegment(segment: string) {
+    switch (segment) {
+        case START_OF_INPUT:
+            return `<start>`;
+        case END_OF_INPUT:
+            return `<end>`;
+        default:
+            return JSON.stringify(segment);
+    }
+}
+
+function formatDotCallback(callback: string | unknown[]) {
+    if (typeof callback === `string`)
+        return callback;
+
+    // The option definitions and name lists would make the labels unreadable
+    const [name, ...args] = callback;
+    return `${name}(${args.map(arg => typeof arg === `object` && arg !== null ? `…` : String(JSON.stringify(arg))).join(`, `)})`;
+}
+
+function escapeDot(text: string) {
+    return text.replace(/\\/g, `\\\\`).replace(/"/g, `\\"`);
+}
+
+/**
+ * Formats a machine as a Graphviz graph. Only the nodes reachable from the
+ * initial node are included, and only those from `nodes` if set.
+ */
+export function formatMachineDot(machine: StateMachine, {commandLabels = [], nodes}: {commandLabels?: string[], nodes?: Set<number>} = {}) {
+    const owners = getNodeOwners(machine);
+
+    const reachable = new Set<number>();
+    const queue = [NODE_INITIAL];
+
+    while (queue.length > 0) {
+        const node = queue.shift()!;
+        if (reachable.has(node))
+            continue;
+
+        reachable.add(node);
+
+        const nodeDef = machine.nodes[node];
+        for (const transitions of Object.values(nodeDef.statics))
+            for (const {to} of transitions)
+                queue.push(to);
+        for (const [, {to}] of nodeDef.dynamics)
+            queue.push(to);
+        for (const {to} of nodeDef.shortcuts) {
+            queue.push(to);
+        }
+    }
+
+    const isIncluded = (node: number) => reachable.has(node) && (typeof nodes === `undefined` || nodes.has(node));
+
+    const getNodeLabel = (node: number) => {
+        switch (node) {
+            case NODE_INITIAL:
+                return `${node}\\ninitial`;
+            case NODE_SUCCESS:
+                return `${node}\\nsuccess`;
+            case NODE_ERRORED:
+                return `${node}\\nerrored`;
+        }
+
+        const owner = owners[node]!;
+        return `${node}\\n${escapeDot(`#${owner} ${commandLabels[owner] ?? ``}`.trim())}`;
+    };
+
+    const lines = [`digraph machine {`, `  node [shape=box];`];
+
+    for (let t = 0; t < machine.nodes.length; ++t)
+        if (isIncluded(t))
+            lines.push(`  ${t} [label="${getNodeLabel(t)}"${t === NODE_SUCCESS ? `, shape=doublecircle` : ``}];`);
+
+    const pushEdge = (from: number, to: number, label: string) => {
+        if (isIncluded(from) && isIncluded(to)) {
+            lines.push(`  ${from} -> ${to} [label="${escapeDot(label)}"];`);
+        }
+    };
+
+    for (let t = 0; t < machine.nodes.length; ++t) {
+        const nodeDef = machine.nodes[t];
+
+        for (const [segment, transitions] of Object.entries(nodeDef.statics))
+            for (const {to, reducer} of transitions)
+                pushEdge(t, to, `${formatDotSegment(segment)}${typeof reducer !== `undefined` ? ` / ${formatDotCallback(reducer)}` : ``}`);
+
+        for (const [test, {to, reducer}] of nodeDef.dynamics)
+            pushEdge(t, to, `${formatDotCallback(test)}${typeof reducer !== `undefined` ? ` / ${formatDotCallback(reducer)}` : ``}`);
+
+        for (const {to, reducer} of nodeDef.shortcuts) {
+            pushEdge(t, to, `<shortcut>${typeof reducer !== `undefined` ? ` / ${formatDotCallback(reducer)}` : ``}`);
+        }
+    }
+
+    lines.push(`}`);
+
+    return `${lines.join(`\n`)}\n`;
+}
+
+export function runMachineInternal(machine: StateMachine, input: string[], partial: boolean = false, tracer?: MachineTracer) {
     debug(`Running a vm on ${JSON.stringify(input)}`);
-    let branches: {node: number, state: RunState}[] = [{node: NODE_INITIAL, state: {
+    let branches: MachineBranch[] = [{node: NODE_INITIAL, state: {
         candidateUsage: null,
         errorMessage: null,
         ignoreOptions: false,
@@ -157,7 +305,7 @@ export function runMachineInternal(machine: StateMachine, input: string[], parti
         const segment = tokens[t];
 
         debug(`  Processing ${JSON.stringify(segment)}`)
-        const nextBranches: {node: number, state: RunState}[] = [];
+        const nextBranches: MachineBranch[] = [];
 
         for (const {node, state} of branches) {
             debug(`    Current node is ${node}`);
@@ -221,6 +369,11 @@ export function runMachineInternal(machine: StateMachine, input: string[], parti
             }
         }
 
+        const keptBranches = trimSmallerBranches(nextBranches);
+
+        if (typeof tracer !== `undefined`)
+            tracer(segment, nextBranches, keptBranches);
+
         if (nextBranches.length === 0 && segment === END_OF_INPUT && input.length === 1) {
             return [{
                 node: NODE_INITIAL,
@@ -228,20 +381,24 @@ export function runMachineInternal(machine: StateMachine, input: string[], parti
             }];
         }
 
+        // The first token is the start of input marker
+        const tokenIndex = segment !== END_OF_INPUT ? t - 1 : null;
+
         if (nextBranches.length === 0) {
             throw new errors.UnknownSyntaxError(input, branches.filter(({node}) => {
                 return node !== NODE_ERRORED;
             }).map(({state}) => {
                 return {usage: state.candidateUsage!, reason: null};
-            }));
+            }), findSimilarSegments(machine, branches, segment), tokenIndex);
         }
 
         if (nextBranches.every(({node}) => node === NODE_ERRORED)) {
             throw new errors.UnknownSyntaxError(input, nextBranches.map(({state}) => {
                 return {usage: state.candidateUsage!, reason: state.errorMessage};
-            }));        }
+            }), findSimilarSegments(machine, branches, segment), tokenIndex);
+        }
 
-        branches = trimSmallerBranches(nextBranches);
+        branches = keptBranches;
     }
 
     if (branches.length > 0) {
@@ -256,6 +413,69 @@ export function runMachineInternal(machine: StateMachine, input: string[], parti
     return branches;
 }
 
+function getEditDistance(a: string, b: string) {
+    let previousRow = Array.from({length: b.length + 1}, (_, j) => j);
+
+    for (let i = 1; i <= a.length; ++i) {
+        const currentRow = [i];
+
+        for (let j = 1; j <= b.length; ++j) {
+            currentRow.push(Math.min(
+                previousRow[j] + 1,
+                currentRow[j - 1] + 1,
+                previousRow[j - 1] + (a[i - 1] !== b[j - 1] ? 1 : 0),
+            ));
+        }
+
+        previousRow = currentRow;
+    }
+
+    return previousRow[b.length];
+}
+
+function findSimilarSegments(machine: StateMachine, branches: {node: number, state: RunState}[], segment: string) {
+    if (segment === START_OF_INPUT || segment === END_OF_INPUT)
+        return [];
+
+    const candidates = new Set<string>();
+
+    for (const {node} of branches) {
+        if (node === NODE_ERRORED)
+            continue;
+
+        const nodeDef = machine.nodes[node];
+
+        // The statics are the path segments that could have been typed
+        for (const candidate of Object.keys(nodeDef.statics))
+            if (candidate !== START_OF_INPUT && candidate !== END_OF_INPUT)
+                candidates.add(candidate);
+
+        // The option names are stored as arguments of the dynamic tests
+        for (const [test] of nodeDef.dynamics) {
+            if (!Array.isArray(test) || test[0] !== `isBoundOption`)
+                continue;
+
+            const [, , options] = test as [string, string[], OptDefinition[]];
+            for (const {names, hidden} of options)
+                if (!hidden)
+                    for (const name of names)
+                        candidates.add(name);
+        }
+    }
+
+    const maxDistance = Math.max(1, Math.floor(segment.length / 3));
+
+    return [...candidates].map(candidate => {
+        return {candidate, distance: getEditDistance(segment, candidate)};
+    }).filter(({distance}) => {
+        return distance > 0 && distance <= maxDistance;
+    }).sort((a, b) => {
+        return a.distance - b.distance || a.candidate.localeCompare(b.candidate);
+    }).map(({candidate}) => {
+        return candidate;
+    });
+}
+
 function checkIfNodeIsFinished(node: Node, state: RunState) {
     if (state.selectedIndex !== null)
         return true;
@@ -268,6 +488,14 @@ function checkIfNodeIsFinished(node: Node, state: RunState) {
     return false;
 }
 
+export type ValueSlot = {
+    commandIndex: number;
+    name: string;
+    state: RunState;
+};
+
+export type ValueResolver = (slot: ValueSlot, partial: string) => string[] | Promise<string[]>;
+
 function suggestMachine(machine: StateMachine, input: string[], partial: boolean) {
     // If we're accepting partial matches, then exact matches need to be
     // prefixed with an extra space.
@@ -348,15 +576,66 @@ function suggestMachine(machine: StateMachine, input: string[], partial: boolean
     return [...suggestions].sort();
 }
 
-function runMachine(machine: StateMachine, input: string[]) {
-    const branches = runMachineInternal(machine, [...input, END_OF_INPUT]);
+async function suggestMachineWithValues(machine: StateMachine, input: string[], partial: boolean, resolveValues: ValueResolver) {
+    const suggestions = suggestMachine(machine, input, partial);
+    const suggestionsJson = new Set(suggestions.map(suggestion => JSON.stringify(suggestion)));
+
+    // In partial mode the values complete the last token rather than
+    // following it, so the slots are those accepting this last token
+    const isCompletingToken = partial && input.length > 0;
+    const current = isCompletingToken ? input[input.length - 1] : ``;
+
+    for (const slot of findValueSlots(machine, isCompletingToken ? input.slice(0, -1) : input)) {
+        for (const value of await resolveValues(slot, current)) {
+            if (!value.startsWith(current))
+                continue;
+
+            const suggestion = [isCompletingToken ? value.slice(current.length) : value];
+
+            const json = JSON.stringify(suggestion);
+            if (suggestionsJson.has(json))
+                continue;
+
+            suggestions.push(suggestion);
+            suggestionsJson.add(json);
+        }
+    }
+
+    return suggestions.sort();
+}
+
+function findValueSlots(machine: StateMachine, input: string[]) {
+    const branches = runMachineInternal(machine, input);
+
+    const slots: ValueSlot[] = [];
+    for (const {node, state} of branches) {
+        if (node === NODE_ERRORED)
+            continue;
+
+        for (const [test] of machine.nodes[node].dynamics) {
+            if (!Array.isArray(test))
+                continue;
+
+            if (test[0] !== `isNotOptionLike` || test.length !== 3)
+                continue;
+
+            const [, commandIndex, name] = test as [string, number, string];
+            slots.push({commandIndex, name, state});
+        }
+    }
+
+    return slots;
+}
+
+function runMachine(machine: StateMachine, input: string[], tracer?: MachineTracer, selectionTracer?: SelectionTracer) {
+    const branches = runMachineInternal(machine, [...input, END_OF_INPUT], false, tracer);
 
     return selectBestState(input, branches.map(({state}) => {
         return state;
-    }));
+    }), selectionTracer);
 }
 
-export function trimSmallerBranches(branches: {node: number, state: RunState}[]) {
+export function trimSmallerBranches(branches: MachineBranch[]) {
     let maxPathSize = 0;
     for (const {state} of branches)
         if (state.path.length > maxPathSize)
@@ -367,7 +646,7 @@ export function trimSmallerBranches(branches: {node: number, state: RunState}[])
     });
 }
 
-export function selectBestState(input: string[], states: RunState[]) {
+export function selectBestState(input: string[], states: RunState[], tracer?: SelectionTracer) {
     const terminalStates = states.filter(state => {
         return state.selectedIndex !== null;
     });
@@ -384,6 +663,8 @@ export function selectBestState(input: string[], states: RunState[]) {
         return state.path.length === maxPathSize;
     });
 
+    tracer?.(`path`, terminalStates, bestPathBranches);
+
     const getPositionalCount = (state: RunState) => state.positionals.filter(({extra}) => {
         return !extra;
     }).length + state.options.length;
@@ -403,7 +684,11 @@ export function selectBestState(input: string[], states: RunState[]) {
         return state;
     });
 
+    tracer?.(`positionals`, bestPathBranches, bestPositionalStates);
+
     const fixedStates = aggregateHelpStates(bestPositionalStates);
+
+    tracer?.(`help`, bestPositionalStates, fixedStates);
     if (fixedStates.length > 1)
         throw new errors.AmbiguousSyntaxError(input, fixedStates.map(state => state.candidateUsage!));
 
@@ -561,7 +846,9 @@ export const tests = {
     isOptionLike: (state: RunState, segment: string) => {
         return !state.ignoreOptions && segment.startsWith(`-`);
     },
-    isNotOptionLike: (state: RunState, segment: string) => {
+    // The command index and the value name don't affect the test; they only
+    // tell the completion which provider to call for the value
+    isNotOptionLike: (state: RunState, segment: string, command?: number, name?: string) => {
         return state.ignoreOptions || !segment.startsWith(`-`);
     },
     isOption: (state: RunState, segment: string, name: string, hidden?: boolean) => {
@@ -677,11 +964,38 @@ export type ArityDefinition = {
     proxy: boolean;
 };
 
+export type CompletionProvider = (partial: string, state: RunState) => string[] | Promise<string[]>;
+
+export type PositionalDefinition = {
+    name: string;
+    kind: `required` | `optional` | `rest` | `proxy`;
+    description?: string;
+    /**
+     * The values accepted by the positional, if restricted.
+     */
+    choices?: string[];
+    /**
+     * The minimum number of values expected by rest and proxy arguments.
+     */
+    required?: number;
+};
+
 export type OptDefinition = {
     names: string[];
     description?: string;
+    env?: string;
+    /**
+     * The values accepted by the option, if restricted.
+     */
+    choices?: string[];
+    /**
+     * The type of the arguments shown in the usage (for instance `#int`)
+     * instead of their index.
+     */
+    hint?: string;
     arity: number;
     hidden: boolean;
+    required?: boolean;
     allowBinding: boolean;
 };
 
@@ -693,6 +1007,10 @@ export class CommandBuilder<Context> {
     public readonly arity: ArityDefinition = {leading: [], trailing: [], extra: [], proxy: false};
     public readonly options: OptDefinition[] = [];
     public readonly paths: string[][] = [];
+    public readonly positionals: PositionalDefinition[] = [];
+
+    private readonly completionProviders: Map<string, CompletionProvider> = new Map();
+    private restName = `arg`;
 
     private context?: Context;
 
@@ -709,7 +1027,18 @@ export class CommandBuilder<Context> {
         Object.assign(this.arity, {leading, trailing, extra, proxy});
     }
 
-    addPositional({name = 'arg', required = true}: {name?: string, required?: boolean} = {}) {
+    addPositional({name = 'arg', required = true, complete, description, choices}: {name?: string, required?: boolean, complete?: CompletionProvider, description?: string, choices?: string[]} = {}) {
+        this.registerPositional(name, required);
+        // The choices are only set when restricted, so that the definitions
+        // of the other positionals stay the same
+        this.positionals.push({name, kind: required ? `required` : `optional`, description, ...typeof choices !== `undefined` ? {choices} : {}});
+
+        if (typeof complete !== `undefined`) {
+            this.completionProviders.set(name, complete);
+        }
+    }
+
+    private registerPositional(name: string, required: boolean) {
         if (!required && this.arity.extra === NoLimits)
             throw new Error(`Optional parameters cannot be declared when using .rest() or .proxy()`);
         if (!required && this.arity.trailing.length > 0)
@@ -724,24 +1053,31 @@ export class CommandBuilder<Context> {
         }
     }
 
-    addRest({name = 'arg', required = 0}: {name?: string, required?: number} = {}) {
+    addRest({name = 'arg', required = 0, complete, description, kind = `rest`}: {name?: string, required?: number, complete?: CompletionProvider, description?: string, kind?: `rest` | `proxy`} = {}) {
         if (this.arity.extra === NoLimits)
             throw new Error(`Infinite lists cannot be declared multiple times in the same command`);
         if (this.arity.trailing.length > 0)
             throw new Error(`Infinite lists cannot be declared after the required trailing positional arguments`);
 
         for (let t = 0; t < required; ++t)
-            this.addPositional({name});
+            this.registerPositional(name, true);
 
         this.arity.extra = NoLimits;
+        this.restName = name;
+
+        this.positionals.push({name, kind, description, required});
+
+        if (typeof complete !== `undefined`) {
+            this.completionProviders.set(name, complete);
+        }
     }
 
-    addProxy({required = 0}: {name?: string, required?: number} = {}) {
-        this.addRest({required});
+    addProxy({required = 0, description}: {name?: string, required?: number, description?: string} = {}) {
+        this.addRest({required, description, kind: `proxy`});
         this.arity.proxy = true;
     }
 
-    addOption({names, description, arity = 0, hidden = false, allowBinding = true}: Partial<OptDefinition> & {names: string[]}) {
+    addOption({names, description, env, choices, hint, arity = 0, hidden = false, required = false, allowBinding = true, complete}: Partial<OptDefinition> & {names: string[], complete?: CompletionProvider}) {
         if (!allowBinding && arity > 1)
             throw new Error(`The arity cannot be higher than 1 when the option only supports the --arg=value syntax`);
         if (!Number.isInteger(arity))
@@ -750,38 +1086,70 @@ export class CommandBuilder<Context> {
             throw new Error(`The arity must be positive, got ${arity}`);
 
         this.allOptionNames.push(...names);
-        this.options.push({names, description, arity, hidden, allowBinding});
+        this.options.push({names, description, env, ...typeof choices !== `undefined` ? {choices} : {}, ...typeof hint !== `undefined` ? {hint} : {}, arity, hidden, required, allowBinding});
+
+        if (typeof complete !== `undefined`) {
+            for (const name of names) {
+                this.completionProviders.set(name, complete);
+            }
+        }
+    }
+
+    setCompletionProvider(name: string, complete: CompletionProvider) {
+        this.completionProviders.set(name, complete);
+    }
+
+    getCompletionProvider(name: string) {
+        return this.completionProviders.get(name);
     }
 
     setContext(context: Context) {
         this.context = context;
     }
 
+    getContext() {
+        if (typeof this.context === `undefined`)
+            throw new Error(`Assertion failed: No context attached`);
+
+        return this.context;
+    }
+
     usage({detailed = true, inlineOptions = true}: {detailed?: boolean; inlineOptions?: boolean} = {}) {
         const segments = [this.cliOpts.binaryName];
 
         const detailedOptionList: {
             definition: string;
-            description: string;
+            names: string[];
+            arity: number;
+            description?: string;
+            env?: string;
+            choices?: string[];
         }[] = [];
 
         if (this.paths.length > 0)
             segments.push(...this.paths[0]);
 
         if (detailed) {
-            for (const {names, arity, hidden, description} of this.options) {
+            for (const {names, arity, hidden, required, description, env, choices, hint} of this.options) {
                 if (hidden)
                     continue;
 
                 const args = [];
                 for (let t = 0; t < arity; ++t)
-                    args.push(` #${t}`);
+                    args.push(` #${hint ?? t}`);
 
                 const definition = `${names.join(`,`)}${args.join(``)}`;
 
-                if (!inlineOptions && description) {
-                    detailedOptionList.push({definition, description});
-                } else {
+                // Required options always stay in the usage line, so that
+                // they can't be overlooked
+                const isDetailed = description || env || choices;
+
+                if (!inlineOptions && isDetailed)
+                    detailedOptionList.push({definition, names, arity, description, env, ...typeof choices !== `undefined` ? {choices} : {}});
+
+                if (required) {
+                    segments.push(`<${definition}>`);
+                } else if (inlineOptions || !isDetailed) {
                     segments.push(`[${definition}]`);
                 }
             }
@@ -802,8 +1170,7 @@ export class CommandBuilder<Context> {
     }
 
     compile() {
-        if (typeof this.context === `undefined`)
-            throw new Error(`Assertion failed: No context attached`);
+        const context = this.getContext();
 
         const machine = makeStateMachine();
         let firstNode = NODE_INITIAL;
@@ -815,6 +1182,10 @@ export class CommandBuilder<Context> {
             ? `always`
             : `isNotOptionLike`;
 
+        const positionalValue = (name: string): `always` | [`isNotOptionLike`, number, string] => this.arity.proxy
+            ? `always`
+            : [`isNotOptionLike`, this.cliIndex, name];
+
         const paths = this.paths.length > 0
             ? this.paths
             : [[]];
@@ -859,7 +1230,7 @@ export class CommandBuilder<Context> {
                 if (this.arity.trailing.length > 0 || t + 1 !== this.arity.leading.length)
                     registerStatic(machine, nextLeadingNode, END_OF_INPUT, NODE_ERRORED, [`setError`, `Not enough positional arguments`]);
 
-                registerDynamic(machine, lastLeadingNode, `isNotOptionLike`, nextLeadingNode, `pushPositional`);
+                registerDynamic(machine, lastLeadingNode, [`isNotOptionLike`, this.cliIndex, this.arity.leading[t]], nextLeadingNode, `pushPositional`);
                 lastLeadingNode = nextLeadingNode;
             }
 
@@ -874,8 +1245,8 @@ export class CommandBuilder<Context> {
                     if (!this.arity.proxy)
                         this.registerOptions(machine, extraNode);
 
-                    registerDynamic(machine, lastLeadingNode, positionalArgument, extraNode, `pushExtraNoLimits`);
-                    registerDynamic(machine, extraNode, positionalArgument, extraNode, `pushExtraNoLimits`);
+                    registerDynamic(machine, lastLeadingNode, positionalValue(this.restName), extraNode, `pushExtraNoLimits`);
+                    registerDynamic(machine, extraNode, positionalValue(this.restName), extraNode, `pushExtraNoLimits`);
                     registerShortcut(machine, extraNode, extraShortcutNode);
                 } else {
                     for (let t = 0; t < this.arity.extra.length; ++t) {
@@ -884,7 +1255,7 @@ export class CommandBuilder<Context> {
                         if (!this.arity.proxy)
                             this.registerOptions(machine, nextExtraNode);
 
-                        registerDynamic(machine, lastExtraNode, positionalArgument, nextExtraNode, `pushExtra`);
+                        registerDynamic(machine, lastExtraNode, positionalValue(this.arity.extra[t]), nextExtraNode, `pushExtra`);
                         registerShortcut(machine, nextExtraNode, extraShortcutNode);
                         lastExtraNode = nextExtraNode;
                     }
@@ -906,7 +1277,7 @@ export class CommandBuilder<Context> {
                 if (t + 1 < this.arity.trailing.length)
                     registerStatic(machine, nextTrailingNode, END_OF_INPUT, NODE_ERRORED, [`setError`, `Not enough positional arguments`]);
 
-                registerDynamic(machine, lastTrailingNode, `isNotOptionLike`, nextTrailingNode, `pushPositional`);
+                registerDynamic(machine, lastTrailingNode, [`isNotOptionLike`, this.cliIndex, this.arity.trailing[t]], nextTrailingNode, `pushPositional`);
                 lastTrailingNode = nextTrailingNode;
             }
 
@@ -916,7 +1287,7 @@ export class CommandBuilder<Context> {
 
         return {
             machine,
-            context: this.context,
+            context,
         };
     }
 
@@ -963,7 +1334,7 @@ export class CommandBuilder<Context> {
                         ? `setStringValue`
                         : `pushStringValue`;
 
-                    registerDynamic(machine, lastNode, `isNotOptionLike`, nextNode, action);
+                    registerDynamic(machine, lastNode, [`isNotOptionLike`, this.cliIndex, longestName], nextNode, action);
 
                     lastNode = nextNode;
                 }
@@ -1016,29 +1387,62 @@ export class CliBuilder<Context> {
         return builder;
     }
 
-    compile() {
-        const machines = [];
-        const contexts = [];
-
-        for (const builder of this.builders) {
-            const {machine, context} = builder.compile();
-
-            machines.push(machine);
-            contexts.push(context);
+    /**
+     * Compiles the commands into a single state machine. A machine compiled
+     * beforehand (and for example cached to disk) can be passed as a
+     * parameter, in which case it's used as-is.
+     */
+    compile({machine: precompiled}: {machine?: StateMachine} = {}) {
+        const contexts = this.builders.map(builder => builder.getContext());
+
+        let machine: StateMachine;
+        if (typeof precompiled !== `undefined`) {
+            machine = precompiled;
+        } else {
+            machine = makeAnyOfMachine(this.builders.map(builder => builder.compile().machine));
+            simplifyMachine(machine);
         }
 
-        const machine = makeAnyOfMachine(machines);
-        simplifyMachine(machine);
-
         return {
             machine,
             contexts,
-            process: (input: string[]) => {
-                return runMachine(machine, input);
+            process: (input: string[], tracer?: MachineTracer, selectionTracer?: SelectionTracer) => {
+                return runMachine(machine, input, tracer, selectionTracer);
+            },
+            dot: ({input}: {input?: string[]} = {}) => {
+                const commandLabels = this.builders.map(builder => [this.opts.binaryName, ...(builder.paths[0] ?? [])].join(` `));
+
+                if (typeof input === `undefined`)
+                    return formatMachineDot(machine, {commandLabels});
+
+                // The nodes are collected even if the input fails to parse,
+                // since that's when the graph is the most useful
+                const nodes = new Set([NODE_INITIAL]);
+                try {
+                    runMachine(machine, input, (segment, branches) => {
+                        for (const {node} of branches) {
+                            nodes.add(node);
+                        }
+                    });
+                } catch (error) {
+                    // The rejections are what the graph is meant to explain,
+                    // but any other error would be a bug of the machine
+                    if (!(error instanceof errors.UnknownSyntaxError) && !(error instanceof errors.AmbiguousSyntaxError)) {
+                        throw error;
+                    }
+                }
+
+                return formatMachineDot(machine, {commandLabels, nodes});
             },
             suggest: (input: string[], partial: boolean) => {
                 return suggestMachine(machine, input, partial);
             },
+            suggestWithValues: (input: string[], partial: boolean) => {
+                return suggestMachineWithValues(machine, input, partial, ({commandIndex, name, state}, current) => {
+                    const provider = this.builders[commandIndex].getCompletionProvider(name);
+                    return typeof provider !== `undefined` ? provider(current, state) : [];
+                });
+            },
         };
     }
 }
@@ -25,14 +25,9 @@ class YarnDefaultRun extends Command<Context> {
     }
 }
 
-const isPositiveInteger = t.applyCascade(t.isNumber(), [
-    t.isInteger(),
-    t.isAtLeast(1),
-]);
-
 class YarnInstall extends Command<Context> {
     frozenLockfile = Command.Boolean(`--frozen-lockfile`, false);
-    maxRetries = Command.String(`--max-retries`, `0`, {validator: isPositiveInteger});
+    maxRetries = Command.Number(`--max-retries`, 0, {integer: true, min: 1});
 
     static paths = [Command.Default, [`install`]];
     async execute() {
@@ -2,10 +2,21 @@ import {END_OF_INPUT} from './constants';
 
 export type ErrorMeta = {
     type: `none`;
+    /**
+     * The exit code returned by `Cli#run` when the error is thrown. Takes
+     * precedence over the `exitCodes` option of the Cli.
+     */
+    exitCode?: number;
 } | {
     type: `usage`;
+    exitCode?: number;
 };
 
+/**
+ * Any class of errors, as used by the `exitCodes` option of the Cli.
+ */
+export type ErrorClass = new (...args: any[]) => Error;
+
 /**
  * A generic usage error with the name `UsageError`.
  *
@@ -23,7 +34,11 @@ export class UsageError extends Error {
 export class UnknownSyntaxError extends Error {
     public clipanion: ErrorMeta = {type: `none`};
 
-    constructor(public readonly input: string[], public readonly candidates: {usage: string, reason: string | null}[]) {
+    /**
+     * @param tokenIndex The index of the argument on which all candidates
+     * failed, or `null` if they failed once the input ended
+     */
+    constructor(public readonly input: string[], public readonly candidates: {usage: string, reason: string | null}[], public readonly suggestions: string[] = [], public readonly tokenIndex: number | null = null) {
         super();
         this.name = `UnknownSyntaxError`;
 
@@ -56,6 +71,49 @@ export class AmbiguousSyntaxError extends Error {
     }
 }
 
+/**
+ * The JSON object describing an error, as printed when the JSON error output
+ * is enabled.
+ */
+export type JsonError = {
+    name: string;
+    message: string;
+    exitCode: number;
+    /**
+     * The index of the argument that couldn't be parsed, if known.
+     */
+    tokenIndex: number | null;
+    /**
+     * The commands that could have matched the command line.
+     */
+    candidates: {usage: string, reason: string | null}[];
+    /**
+     * The paths similar to the unknown one.
+     */
+    suggestions: string[];
+};
+
+export function formatJsonError(error: Error, exitCode: number): JsonError {
+    const json: JsonError = {
+        name: error.name,
+        message: error.message,
+        exitCode,
+        tokenIndex: null,
+        candidates: [],
+        suggestions: [],
+    };
+
+    if (error instanceof UnknownSyntaxError) {
+        json.tokenIndex = error.tokenIndex;
+        json.candidates = error.candidates;
+        json.suggestions = error.suggestions;
+    } else if (error instanceof AmbiguousSyntaxError) {
+        json.candidates = error.usages.map(usage => ({usage, reason: null}));
+    }
+
+    return json;
+}
+
 const whileRunning = (input: string[]) => `While running ${input.filter(token => {
     return token !== END_OF_INPUT;
 }).map(token => {
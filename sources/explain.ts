@@ -0,0 +1,119 @@
+import {END_OF_INPUT, HELP_COMMAND_INDEX, NODE_ERRORED, START_OF_INPUT} from './constants';
+import {MachineBranch, MachineTracer, RunState, SelectionCriterion, SelectionTracer} from './core';
+
+export type ExplanationState = {
+    /**
+     * The usage of the command the state belongs to, or `null` for the help
+     * requests and the states that haven't entered a command yet.
+     */
+    usage: string | null;
+    help: boolean;
+    path: string[];
+    positionals: string[];
+    options: string[];
+    /**
+     * The reason why the state got rejected, if it did.
+     */
+    error: string | null;
+};
+
+export type ExplanationStep = {
+    /**
+     * The argument processed by the step, or `null` for the start and the
+     * end of the input.
+     */
+    argument: string | null;
+    /**
+     * The states still alive after the argument.
+     */
+    states: ExplanationState[];
+    /**
+     * The states pruned because their path was shorter than the others.
+     */
+    trimmed: ExplanationState[];
+};
+
+export type ExplanationSelection = {
+    criterion: SelectionCriterion;
+    reason: string;
+    kept: ExplanationState[];
+    /**
+     * The states that got rejected by the criterion. The help requests aren't
+     * part of them, since they get merged into the kept help state.
+     */
+    discarded: ExplanationState[];
+};
+
+/**
+ * A structured trace of the parsing of a command line, as returned by
+ * `Cli#explain`.
+ */
+export type Explanation = {
+    input: string[];
+    steps: ExplanationStep[];
+    selection: ExplanationSelection[];
+    /**
+     * The selected state, or `null` if the input got rejected.
+     */
+    selected: ExplanationState | null;
+    error: {name: string, message: string} | null;
+};
+
+export function describeState(state: RunState, errored: boolean = false): ExplanationState {
+    return {
+        usage: state.candidateUsage,
+        help: state.selectedIndex === HELP_COMMAND_INDEX,
+        path: state.path,
+        positionals: state.positionals.map(({value}) => value),
+        options: state.options.map(({name}) => name),
+        error: errored ? state.errorMessage : null,
+    };
+}
+
+function describeBranch({node, state}: MachineBranch) {
+    return describeState(state, node === NODE_ERRORED);
+}
+
+function getSelectionReason(criterion: SelectionCriterion, keptStates: RunState[]) {
+    switch (criterion) {
+        case `path`: {
+            const length = keptStates[0]?.path.length ?? 0;
+            return `Kept the candidates with the longest path (${length} segment${length !== 1 ? `s` : ``})`;
+        }
+        case `positionals`:
+            return `Kept the candidates consuming the most required positional arguments and options`;
+        case `help`:
+            return `Merged the help requests into a single candidate`;
+    }
+}
+
+/**
+ * Returns the tracers recording the steps of the parsing into `steps` and
+ * the selection of the final state into `selection`.
+ */
+export function makeExplanationTracer() {
+    const steps: ExplanationStep[] = [];
+    const selection: ExplanationSelection[] = [];
+
+    const tracer: MachineTracer = (segment, branches, keptBranches) => {
+        steps.push({
+            argument: segment !== START_OF_INPUT && segment !== END_OF_INPUT ? segment : null,
+            states: keptBranches.map(describeBranch),
+            trimmed: branches.filter(branch => !keptBranches.includes(branch)).map(describeBranch),
+        });
+    };
+
+    const selectionTracer: SelectionTracer = (criterion, states, keptStates) => {
+        const isDiscarded = (state: RunState) => !keptStates.includes(state)
+            && !(criterion === `help` && state.selectedIndex === HELP_COMMAND_INDEX);
+
+        selection.push({
+            criterion,
+            reason: getSelectionReason(criterion, keptStates),
+            kept: keptStates.map(state => describeState(state)),
+            discarded: states.filter(isDiscarded).map(state => describeState(state)),
+        });
+    };
+
+    return {tracer, selectionTracer, steps, selection};
+}
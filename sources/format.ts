@@ -16,7 +16,11 @@ export const textFormat: ColorFormat = {
     code: str => str,
 };
 
-export function formatMarkdownish(text: string, {format, paragraphs}: {format: ColorFormat, paragraphs: boolean}) {
+/**
+ * Cleans up a markdown-ish text as written in the sources, returning it with
+ * one paragraph (or list item) per line.
+ */
+export function normalizeMarkdownish(text: string) {
     // Enforce \n as newline character
     text = text.replace(/\r\n?/g, `\n`);
 
@@ -32,6 +36,12 @@ export function formatMarkdownish(text: string, {format, paragraphs}: {format: C
     // Single newlines are removed; larger than that are collapsed into one
     text = text.replace(/\n(\n)?\n*/g, `$1`);
 
+    return text;
+}
+
+export function formatMarkdownish(text: string, {format, paragraphs}: {format: ColorFormat, paragraphs: boolean}) {
+    text = normalizeMarkdownish(text);
+
     if (paragraphs) {
         text = text.split(/\n/).map(function (paragraph) {
             // Does the paragraph starts with a list?
@@ -55,3 +65,35 @@ export function formatMarkdownish(text: string, {format, paragraphs}: {format: C
 
     return text ? text + `\n` : ``;
 }
+
+/**
+ * Groups the commands by category for the index pages: the uncategorized
+ * commands come first, then the categories in alphabetical order, each with
+ * its commands sorted by usage.
+ */
+export function groupByCategories<T extends {category?: string, usage: string}>(commands: T[]) {
+    const commandsByCategories = new Map<string | null, T[]>();
+    for (const command of commands) {
+        const category = command.category ?? null;
+
+        let categoryCommands = commandsByCategories.get(category);
+        if (typeof categoryCommands === `undefined`)
+            commandsByCategories.set(category, categoryCommands = []);
+
+        categoryCommands.push(command);
+    }
+
+    const categoryNames = [...commandsByCategories.keys()].sort((a, b) => {
+        if (a === null) return -1;
+        if (b === null) return +1;
+        return a.localeCompare(b, `en`, {usage: `sort`, caseFirst: `upper`});
+    });
+
+    return categoryNames.map(categoryName => {
+        const categoryCommands = commandsByCategories.get(categoryName)!.slice().sort((a, b) => {
+            return a.usage.localeCompare(b.usage, `en`, {usage: `sort`, caseFirst: `upper`});
+        });
+
+        return {categoryName, commands: categoryCommands};
+    });
+}
@@ -0,0 +1,138 @@
+import {BATCH_REGEX}                            from './constants';
+import {ArityDefinition, NoLimits, OptDefinition} from './core';
+
+export type LintCode =
+    | `duplicate-path`
+    | `ambiguous-positionals`
+    | `duplicate-option`
+    | `batch-collision`
+    | `negation-collision`;
+
+export type LintDiagnostic = {
+    code: LintCode;
+    /**
+     * The paths of the commands involved (the first one of each command).
+     */
+    paths: string[][];
+    message: string;
+};
+
+export type LintedCommand = {
+    paths: string[][];
+    options: OptDefinition[];
+    arity: ArityDefinition;
+};
+
+export type LintOptions = {
+    binaryName: string;
+};
+
+function getCommandPaths(command: LintedCommand) {
+    // Commands without paths are reachable through the empty path
+    return command.paths.length > 0 ? command.paths : [[]];
+}
+
+function getRequiredCount({arity}: LintedCommand) {
+    return arity.leading.length + arity.trailing.length;
+}
+
+function getMaximumCount(command: LintedCommand) {
+    return command.arity.extra === NoLimits
+        ? Infinity
+        : getRequiredCount(command) + command.arity.extra.length;
+}
+
+function hasSameArity(a: LintedCommand, b: LintedCommand) {
+    return a.arity.leading.length === b.arity.leading.length
+        && a.arity.trailing.length === b.arity.trailing.length
+        && a.arity.proxy === b.arity.proxy
+        && getMaximumCount(a) === getMaximumCount(b);
+}
+
+function lintCommand(command: LintedCommand, label: string, report: (code: LintCode, message: string) => void) {
+    const declaredNames = new Set<string>();
+    const reportedNames = new Set<string>();
+
+    for (const {names} of command.options) {
+        for (const name of names) {
+            if (declaredNames.has(name) && !reportedNames.has(name)) {
+                reportedNames.add(name);
+                report(`duplicate-option`, `The ${name} option of "${label}" is declared multiple times`);
+            }
+
+            declaredNames.add(name);
+        }
+    }
+
+    for (const name of declaredNames) {
+        if (!BATCH_REGEX.test(name))
+            continue;
+
+        const shortNames = [...name.slice(1)].map(letter => `-${letter}`);
+        if (shortNames.every(shortName => declaredNames.has(shortName))) {
+            report(`batch-collision`, `The ${name} option of "${label}" can't be told apart from the batch of ${shortNames.join(`, `)}`);
+        }
+    }
+
+    for (const {names, arity} of command.options) {
+        // Only the options without arguments can be negated
+        if (arity !== 0)
+            continue;
+
+        for (const name of names) {
+            if (!name.startsWith(`--`) || name.startsWith(`--no-`))
+                continue;
+
+            const negatedName = `--no-${name.slice(2)}`;
+            if (declaredNames.has(negatedName)) {
+                report(`negation-collision`, `The ${negatedName} option of "${label}" collides with the negation of ${name}`);
+            }
+        }
+    }
+}
+
+/**
+ * Statically analyzes the commands, and returns the ambiguities that would
+ * otherwise only surface when running some specific command lines. The
+ * diagnostics come along with the indices of the commands they involve.
+ */
+export function lintCommands(commands: LintedCommand[], {binaryName}: LintOptions) {
+    const diagnostics: (LintDiagnostic & {indices: number[]})[] = [];
+
+    const formatPath = (path: string[]) => [binaryName, ...path].join(` `);
+
+    for (let t = 0; t < commands.length; ++t) {
+        const [path] = getCommandPaths(commands[t]);
+
+        lintCommand(commands[t], formatPath(path), (code, message) => {
+            diagnostics.push({code, paths: [path], message, indices: [t]});
+        });
+    }
+
+    for (let t = 0; t < commands.length; ++t) {
+        for (let u = t + 1; u < commands.length; ++u) {
+            const a = commands[t];
+            const b = commands[u];
+
+            const bPaths = getCommandPaths(b).map(path => JSON.stringify(path));
+            const sharedPaths = getCommandPaths(a).filter(path => bPaths.includes(JSON.stringify(path)));
+
+            const report = (code: LintCode, message: string) => {
+                diagnostics.push({code, paths: [getCommandPaths(a)[0], getCommandPaths(b)[0]], message, indices: [t, u]});
+            };
+
+            for (const path of sharedPaths) {
+                // The command with the most required positionals always wins,
+                // so only the commands requiring as many of them may conflict
+                if (hasSameArity(a, b)) {
+                    report(`duplicate-path`, `The "${formatPath(path)}" path is declared by multiple commands accepting the same positional arguments`);
+                } else if (getRequiredCount(a) === getRequiredCount(b)) {
+                    const count = getRequiredCount(a);
+                    report(`ambiguous-positionals`, `The commands declared at "${formatPath(path)}" can't be told apart when given ${count} positional argument${count !== 1 ? `s` : ``}`);
+                }
+            }
+        }
+    }
+
+    return diagnostics;
+}
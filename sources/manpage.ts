@@ -0,0 +1,189 @@
+import {groupByCategories, normalizeMarkdownish} from './format';
+
+export type ManpageOption = {
+    names: string[];
+    arity: number;
+    description?: string;
+    env?: string;
+    hint?: string;
+};
+
+export type ManpageCommand = {
+    /**
+     * The name of the page, without its section (for example `yarn-install`).
+     */
+    name: string;
+    path: string[];
+    usage: string;
+    category?: string;
+    description?: string;
+    details?: string;
+    examples?: [string, string][];
+    options: ManpageOption[];
+};
+
+export type ManpageOptions = {
+    binaryLabel?: string;
+    binaryName: string;
+    binaryVersion?: string;
+};
+
+export type Manpage = {
+    /**
+     * The file name of the page (for example `yarn-install.1`).
+     */
+    name: string;
+    content: string;
+};
+
+function escapeRoff(text: string) {
+    return text
+        .replace(/\\/g, `\\e`)
+        .replace(/-/g, `\\-`)
+        .replace(/^([.'])/gm, `\\&$1`);
+}
+
+function formatRoffInline(text: string) {
+    return escapeRoff(text)
+        .replace(/`([^`]+)`/g, `\\fB$1\\fR`)
+        .replace(/\*\*([^*]+)\*\*/g, `\\fB$1\\fR`)
+        .replace(/\*([^*]+)\*/g, `\\fI$1\\fR`);
+}
+
+/**
+ * Converts a markdown-ish text into roff paragraphs: code spans and strong
+ * emphasis become bold, emphasis becomes italic, and list items become
+ * indented paragraphs.
+ */
+function formatRoffParagraphs(text: string) {
+    let result = ``;
+
+    for (const paragraph of normalizeMarkdownish(text).split(`\n`)) {
+        if (paragraph === ``)
+            continue;
+
+        const bulletMatch = paragraph.match(/^[*-][\t ]+(.*)/);
+        if (bulletMatch) {
+            result += `.IP \\(bu 2\n${formatRoffInline(bulletMatch[1])}\n`;
+        } else {
+            result += `.PP\n${formatRoffInline(paragraph)}\n`;
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Formats a usage line, highlighting the binary and the command path in bold
+ * and the positional arguments in italic.
+ */
+function formatRoffUsage(usage: string, pathLength: number) {
+    const segments = usage.split(` `);
+
+    return segments.map((segment, index) => {
+        if (index <= pathLength)
+            return `\\fB${escapeRoff(segment)}\\fR`;
+
+        if (/^<.*>$/.test(segment))
+            return `\\fI${escapeRoff(segment)}\\fR`;
+
+        return escapeRoff(segment);
+    }).join(` `);
+}
+
+function formatHeader(title: string, {binaryLabel, binaryName, binaryVersion}: ManpageOptions) {
+    const source = [binaryLabel ?? binaryName, binaryVersion].filter(part => typeof part !== `undefined`).join(` `);
+    return `.TH "${escapeRoff(title.toUpperCase())}" "1" "" "${escapeRoff(source)}" "${escapeRoff(binaryLabel ?? binaryName)}"\n`;
+}
+
+function formatOption({names, arity, description, env, hint}: ManpageOption) {
+    let definition = names.map(name => `\\fB${escapeRoff(name)}\\fR`).join(`, `);
+    for (let t = 0; t < arity; ++t)
+        definition += ` \\fI#${hint ?? t}\\fR`;
+
+    let result = `.TP\n${definition}\n`;
+
+    if (typeof description !== `undefined`)
+        result += `${formatRoffInline(normalizeMarkdownish(description).replace(/\n/g, ` `))}\n`;
+
+    if (typeof env !== `undefined`)
+        result += `${typeof description !== `undefined` ? `.br\n` : ``}Environment variable: \\fB${escapeRoff(env)}\\fR\n`;
+
+    return result;
+}
+
+export function formatCommandManpage(command: ManpageCommand, opts: ManpageOptions) {
+    let result = formatHeader(command.name, opts);
+
+    result += `.SH NAME\n`;
+    result += typeof command.description !== `undefined`
+        ? `${escapeRoff(command.name)} \\- ${formatRoffInline(normalizeMarkdownish(command.description).replace(/\n/g, ` `))}\n`
+        : `${escapeRoff(command.name)}\n`;
+
+    result += `.SH SYNOPSIS\n`;
+    result += `${formatRoffUsage(command.usage, command.path.length)}\n`;
+
+    if (typeof command.details !== `undefined`) {
+        result += `.SH DESCRIPTION\n`;
+        result += formatRoffParagraphs(command.details);
+    }
+
+    const options = command.options;
+    if (options.length > 0) {
+        result += `.SH OPTIONS\n`;
+        for (const option of options) {
+            result += formatOption(option);
+        }
+    }
+
+    const examples = command.examples ?? [];
+    if (examples.length > 0) {
+        result += `.SH EXAMPLES\n`;
+
+        for (const [description, example] of examples) {
+            result += formatRoffParagraphs(description);
+            result += `.EX\n${escapeRoff(`$ ${example.replace(/\$0/g, opts.binaryName)}`)}\n.EE\n`;
+        }
+    }
+
+    result += `.SH SEE ALSO\n`;
+    result += `.BR ${escapeRoff(opts.binaryName)} (1)\n`;
+
+    return result;
+}
+
+export function formatIndexManpage(commands: ManpageCommand[], opts: ManpageOptions) {
+    let result = formatHeader(opts.binaryName, opts);
+
+    result += `.SH NAME\n`;
+    result += typeof opts.binaryLabel !== `undefined`
+        ? `${escapeRoff(opts.binaryName)} \\- ${escapeRoff(opts.binaryLabel)}\n`
+        : `${escapeRoff(opts.binaryName)}\n`;
+
+    result += `.SH SYNOPSIS\n`;
+    result += `\\fB${escapeRoff(opts.binaryName)}\\fR \\fI<command>\\fR\n`;
+
+    if (commands.length > 0) {
+        result += `.SH COMMANDS\n`;
+
+        for (const {categoryName, commands: categoryCommands} of groupByCategories(commands)) {
+            if (categoryName !== null)
+                result += `.SS ${formatRoffInline(normalizeMarkdownish(categoryName))}\n`;
+
+            for (const command of categoryCommands) {
+                result += `.TP\n${formatRoffUsage(command.usage, command.path.length)}\n`;
+                result += `${formatRoffInline(normalizeMarkdownish(command.description ?? `undocumented`).replace(/\n/g, ` `))}\n`;
+            }
+        }
+    }
+
+    // The commands without path don't get their own page
+    const pages = commands.filter(command => command.path.length > 0);
+    if (pages.length > 0) {
+        result += `.SH SEE ALSO\n`;
+        result += pages.map(command => `.BR ${escapeRoff(command.name)} (1)`).join(`,\n`);
+        result += `\n`;
+    }
+
+    return result;
+}
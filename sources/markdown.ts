@@ -0,0 +1,174 @@
+import {posix}                                   from 'path';
+
+import {PositionalDefinition}                    from './core';
+import {groupByCategories, normalizeMarkdownish} from './format';
+
+export type MarkdownCommand = {
+    path: string[];
+    usage: string;
+    category?: string;
+    description?: string;
+    details?: string;
+    examples?: [string, string][];
+    options: {
+        names: string[];
+        arity: number;
+        description?: string;
+        env?: string;
+        hint?: string;
+    }[];
+    positionals: PositionalDefinition[];
+};
+
+export type MarkdownOptions = {
+    binaryLabel?: string;
+    binaryName: string;
+};
+
+export type MarkdownPage = {
+    /**
+     * The path of the page, relative to the documentation root (for example
+     * `dependencies/install.md`).
+     */
+    name: string;
+    content: string;
+};
+
+function slugify(text: string) {
+    return text.toLowerCase().replace(/[^a-z0-9]+/g, `-`).replace(/^-+|-+$/g, ``);
+}
+
+function formatParagraphs(text: string) {
+    const paragraphs = normalizeMarkdownish(text).split(`\n`).filter(paragraph => paragraph !== ``);
+    const isListItem = (paragraph: string) => /^[*-][\t ]/.test(paragraph);
+
+    // Consecutive list items are kept together so that they form a single list
+    return paragraphs.map((paragraph, index) => {
+        if (index === 0)
+            return paragraph;
+
+        return isListItem(paragraph) && isListItem(paragraphs[index - 1])
+            ? `\n${paragraph}`
+            : `\n\n${paragraph}`;
+    }).join(``);
+}
+
+function formatCell(text: string) {
+    return normalizeMarkdownish(text).replace(/\n/g, ` `).replace(/\|/g, `\\|`);
+}
+
+function formatPositional({name, kind, required = 0}: PositionalDefinition) {
+    switch (kind) {
+        case `required`:
+            return `<${name}>`;
+        case `optional`:
+            return `[${name}]`;
+        default:
+            return required > 0 ? `<${name}>...` : `[${name}...]`;
+    }
+}
+
+function getPageName(command: MarkdownCommand, {binaryName}: MarkdownOptions) {
+    const fileName = `${command.path.length > 0 ? command.path.map(slugify).join(`-`) : slugify(binaryName)}.md`;
+
+    return typeof command.category !== `undefined`
+        ? `${slugify(command.category)}/${fileName}`
+        : fileName;
+}
+
+function formatCommandPage(command: MarkdownCommand, related: MarkdownCommand[], opts: MarkdownOptions) {
+    const name = getPageName(command, opts);
+
+    let result = `# \`${[opts.binaryName, ...command.path].join(` `)}\`\n`;
+
+    if (typeof command.description !== `undefined`)
+        result += `\n${formatParagraphs(command.description).replace(/^./, $0 => $0.toUpperCase())}\n`;
+
+    result += `\n## Usage\n\n\`\`\`\n$ ${command.usage}\n\`\`\`\n`;
+
+    if (command.positionals.length > 0) {
+        result += `\n## Arguments\n\n| Argument | Description |\n| --- | --- |\n`;
+        for (const positional of command.positionals) {
+            result += `| \`${formatPositional(positional)}\` | ${formatCell(positional.description ?? ``)} |\n`;
+        }
+    }
+
+    if (command.options.length > 0) {
+        result += `\n## Options\n\n| Option | Description |\n| --- | --- |\n`;
+
+        for (const {names, arity, description, env, hint} of command.options) {
+            let definition = names.join(`,`);
+            for (let t = 0; t < arity; ++t)
+                definition += ` #${hint ?? t}`;
+
+            const cells = [];
+            if (typeof description !== `undefined`)
+                cells.push(formatCell(description));
+            if (typeof env !== `undefined`)
+                cells.push(`(env: \`${env}\`)`);
+
+            result += `| \`${definition}\` | ${cells.join(` `)} |\n`;
+        }
+    }
+
+    if (typeof command.details !== `undefined`)
+        result += `\n## Details\n\n${formatParagraphs(command.details)}\n`;
+
+    const examples = command.examples ?? [];
+    if (examples.length > 0) {
+        result += `\n## Examples\n`;
+
+        for (const [description, example] of examples) {
+            result += `\n${formatParagraphs(description)}\n\n\`\`\`\n$ ${example.replace(/\$0/g, opts.binaryName)}\n\`\`\`\n`;
+        }
+    }
+
+    if (related.length > 0) {
+        result += `\n## See also\n\n`;
+
+        for (const other of related) {
+            const link = posix.relative(posix.dirname(name), getPageName(other, opts));
+            result += `- [\`${[opts.binaryName, ...other.path].join(` `)}\`](${link})\n`;
+        }
+    }
+
+    return {name, content: result};
+}
+
+function formatIndexPage(commands: MarkdownCommand[], opts: MarkdownOptions) {
+    let result = `# ${opts.binaryLabel ?? `\`${opts.binaryName}\``}\n`;
+
+    for (const {categoryName, commands: categoryCommands} of groupByCategories(commands)) {
+        result += `\n## ${categoryName ?? `Commands`}\n\n`;
+
+        for (const command of categoryCommands) {
+            const description = typeof command.description !== `undefined`
+                ? ` - ${formatCell(command.description)}`
+                : ``;
+
+            result += `- [\`${[opts.binaryName, ...command.path].join(` `)}\`](${getPageName(command, opts)})${description}\n`;
+        }
+    }
+
+    return {name: `index.md`, content: result};
+}
+
+/**
+ * Generates the Markdown documentation of the commands: an `index.md` page
+ * listing them, and one page per command (stored in a directory named after
+ * its category, if any). The pages of the commands sharing the first segment
+ * of their path link to each other.
+ */
+export function formatMarkdownPages(commands: MarkdownCommand[], opts: MarkdownOptions): MarkdownPage[] {
+    const pages = [formatIndexPage(commands, opts)];
+
+    for (const command of commands) {
+        const related = commands.filter(other => {
+            return other !== command && command.path.length > 0 && other.path.length > 0 && other.path[0] === command.path[0];
+        });
+
+        pages.push(formatCommandPage(command, related, opts));
+    }
+
+    return pages;
+}
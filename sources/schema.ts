@@ -0,0 +1,258 @@
+import {PositionalDefinition} from './core';
+
+export type OptionSchema = {
+    /**
+     * The property of the command holding the option, unless the command is
+     * lazy and hasn't been loaded yet.
+     */
+    key?: string;
+    names: string[];
+    arity: number;
+    hidden: boolean;
+    required: boolean;
+    /**
+     * Whether the option can be negated with `--no-<name>`.
+     */
+    negatable: boolean;
+    description?: string;
+    env?: string;
+    choices?: string[];
+    /**
+     * The type of the value as read from the command line, before going
+     * through the validator (if any).
+     */
+    type?: string;
+    default?: unknown;
+    validated?: boolean;
+};
+
+export type PositionalSchema = PositionalDefinition & {
+    key?: string;
+    type?: string;
+    validated?: boolean;
+};
+
+export type CommandSchema = {
+    paths: string[][];
+    category?: string;
+    description?: string;
+    options: OptionSchema[];
+    positionals: PositionalSchema[];
+};
+
+/**
+ * A JSON-serializable description of all the commands of a Cli, as returned
+ * by `Cli#schema`.
+ */
+export type CliSchema = {
+    binaryLabel?: string;
+    binaryName: string;
+    binaryVersion?: string;
+    commands: CommandSchema[];
+};
+
+export type BreakingChangeKind =
+    | `command-removed`
+    | `path-removed`
+    | `option-removed`
+    | `option-renamed`
+    | `option-arity`
+    | `option-required`
+    | `positional-removed`
+    | `positional-required`
+    | `positional-arity`
+    | `positionals-reordered`;
+
+export type BreakingChange = {
+    kind: BreakingChangeKind;
+    /**
+     * The path of the affected command, as found in the previous schema.
+     */
+    path: string[];
+    message: string;
+};
+
+function getCommandPaths(command: CommandSchema) {
+    // Commands without paths are reachable through the empty path
+    return command.paths.length > 0 ? command.paths : [[]];
+}
+
+/**
+ * Returns all the names under which an option is accepted, including the
+ * `--no-` forms of the negatable ones.
+ */
+function getAcceptedNames({names, negatable}: OptionSchema) {
+    const negatedNames = negatable
+        ? names.filter(name => name.startsWith(`--`) && !name.startsWith(`--no-`)).map(name => `--no-${name.slice(2)}`)
+        : [];
+
+    return [...names, ...negatedNames];
+}
+
+function findOption(options: OptionSchema[], option: OptionSchema) {
+    // The keys are the most reliable way to follow an option across renames,
+    // but they are missing from the lazy commands that haven't been loaded
+    if (typeof option.key !== `undefined`) {
+        const match = options.find(other => other.key === option.key);
+        if (typeof match !== `undefined`) {
+            return match;
+        }
+    }
+
+    return options.find(other => other.names.some(name => option.names.includes(name)));
+}
+
+function findPositional(positionals: PositionalSchema[], positional: PositionalSchema) {
+    if (typeof positional.key !== `undefined`) {
+        const match = positionals.find(other => other.key === positional.key);
+        if (typeof match !== `undefined`) {
+            return match;
+        }
+    }
+
+    return positionals.find(other => other.name === positional.name);
+}
+
+function getMinimumCount({kind, required = 0}: PositionalSchema) {
+    switch (kind) {
+        case `required`:
+            return 1;
+        case `optional`:
+            return 0;
+        default:
+            return required;
+    }
+}
+
+function isVariadic({kind}: PositionalSchema) {
+    return kind === `rest` || kind === `proxy`;
+}
+
+function compareOptions(previous: CommandSchema, next: CommandSchema, label: string, report: (kind: BreakingChangeKind, message: string) => void) {
+    const matchedOptions = new Set<OptionSchema>();
+
+    for (const option of previous.options) {
+        const definition = option.names.join(`,`);
+
+        const match = findOption(next.options, option);
+        if (typeof match === `undefined`) {
+            report(`option-removed`, `The ${definition} option of "${label}" has been removed`);
+            continue;
+        }
+
+        matchedOptions.add(match);
+
+        const acceptedNames = getAcceptedNames(match);
+        const lostNames = getAcceptedNames(option).filter(name => !acceptedNames.includes(name));
+
+        if (!option.names.some(name => match.names.includes(name))) {
+            report(`option-renamed`, `The ${definition} option of "${label}" has been renamed into ${match.names.join(`,`)}`);
+        } else if (lostNames.length > 0) {
+            report(`option-renamed`, `The ${definition} option of "${label}" doesn't accept ${lostNames.join(`, `)} anymore`);
+        }
+
+        if (match.arity !== option.arity)
+            report(`option-arity`, `The arity of the ${definition} option of "${label}" changed from ${option.arity} to ${match.arity}`);
+
+        if (match.required && !option.required) {
+            report(`option-required`, `The ${definition} option of "${label}" is now required`);
+        }
+    }
+
+    for (const option of next.options) {
+        if (option.required && !matchedOptions.has(option)) {
+            report(`option-required`, `The new ${option.names.join(`,`)} option of "${label}" is required`);
+        }
+    }
+}
+
+function comparePositionals(previous: CommandSchema, next: CommandSchema, label: string, report: (kind: BreakingChangeKind, message: string) => void) {
+    const matchedPositionals = new Map<PositionalSchema, PositionalSchema>();
+
+    for (const positional of previous.positionals) {
+        const match = findPositional(next.positionals, positional);
+        if (typeof match === `undefined`) {
+            report(`positional-removed`, `The "${positional.name}" positional argument of "${label}" has been removed`);
+            continue;
+        }
+
+        matchedPositionals.set(match, positional);
+
+        if (isVariadic(positional) && !isVariadic(match)) {
+            report(`positional-arity`, `The "${positional.name}" positional argument of "${label}" doesn't accept multiple values anymore`);
+        } else if (positional.kind === `proxy` && match.kind === `rest`) {
+            report(`positional-arity`, `The "${positional.name}" positional argument of "${label}" doesn't forward the options anymore`);
+        }
+    }
+
+    for (const positional of next.positionals) {
+        const previousPositional = matchedPositionals.get(positional);
+
+        const previousCount = typeof previousPositional !== `undefined` ? getMinimumCount(previousPositional) : 0;
+        const count = getMinimumCount(positional);
+
+        if (count <= previousCount)
+            continue;
+
+        if (isVariadic(positional)) {
+            report(`positional-required`, `The "${positional.name}" positional argument of "${label}" now requires at least ${count} value${count > 1 ? `s` : ``}`);
+        } else {
+            report(`positional-required`, `The "${positional.name}" positional argument of "${label}" is now required`);
+        }
+    }
+
+    const previousOrder = previous.positionals.filter(positional => [...matchedPositionals.values()].includes(positional));
+    const nextOrder = next.positionals.filter(positional => matchedPositionals.has(positional)).map(positional => matchedPositionals.get(positional)!);
+
+    if (previousOrder.some((positional, index) => nextOrder[index] !== positional)) {
+        const formatOrder = (positionals: PositionalSchema[]) => positionals.map(({name}) => name).join(`, `);
+        report(`positionals-reordered`, `The positional arguments of "${label}" have been reordered (from ${formatOrder(previousOrder)} to ${formatOrder(nextOrder)})`);
+    }
+}
+
+/**
+ * Compares two schemas returned by `Cli#schema` (typically one stored with
+ * the latest release and the current one), and returns the changes that
+ * could break the command lines written against the previous one.
+ */
+export function findBreakingChanges(previous: CliSchema, next: CliSchema): BreakingChange[] {
+    const changes: BreakingChange[] = [];
+
+    const nextCommands = new Map<string, CommandSchema>();
+    for (const command of next.commands) {
+        for (const path of getCommandPaths(command)) {
+            const key = JSON.stringify(path);
+            if (!nextCommands.has(key)) {
+                nextCommands.set(key, command);
+            }
+        }
+    }
+
+    const formatPath = (path: string[]) => [previous.binaryName, ...path].join(` `);
+
+    for (const command of previous.commands) {
+        const paths = getCommandPaths(command);
+        const label = formatPath(paths[0]);
+
+        const report = (kind: BreakingChangeKind, message: string) => {
+            changes.push({kind, path: paths[0], message});
+        };
+
+        const matches = paths.map(path => nextCommands.get(JSON.stringify(path)));
+
+        const nextCommand = matches.find(match => typeof match !== `undefined`);
+        if (typeof nextCommand === `undefined`) {
+            report(`command-removed`, `The "${label}" command has been removed`);
+            continue;
+        }
+
+        for (let t = 0; t < paths.length; ++t)
+            if (typeof matches[t] === `undefined`)
+                report(`path-removed`, `The "${formatPath(paths[t])}" path of "${label}" has been removed`);
+
+        compareOptions(command, nextCommand, label, report);
+        comparePositionals(command, nextCommand, label, report);
+    }
+
+    return changes;
+}
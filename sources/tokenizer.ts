@@ -0,0 +1,78 @@
+import {UsageError} from './errors';
+
+/**
+ * Splits a command line into arguments the way a POSIX shell would: words
+ * are separated by whitespaces, single quotes preserve their content as-is,
+ * double quotes allow backslash escapes, and backslashes outside quotes
+ * escape the next character.
+ */
+export function tokenizeShellLine(line: string) {
+    const tokens: string[] = [];
+
+    let current = ``;
+    let hasToken = false;
+
+    for (let t = 0; t < line.length; ++t) {
+        const char = line[t];
+
+        if (/\s/.test(char)) {
+            if (hasToken)
+                tokens.push(current);
+
+            current = ``;
+            hasToken = false;
+            continue;
+        }
+
+        hasToken = true;
+
+        switch (char) {
+            case `'`: {
+                const end = line.indexOf(`'`, t + 1);
+                if (end === -1)
+                    throw new UsageError(`Unterminated quoted string`);
+
+                current += line.slice(t + 1, end);
+                t = end;
+            } break;
+
+            case `"`: {
+                let closed = false;
+
+                for (t += 1; t < line.length; ++t) {
+                    if (line[t] === `"`) {
+                        closed = true;
+                        break;
+                    }
+
+                    // Within double quotes, backslashes only escape the
+                    // characters that would otherwise be special
+                    if (line[t] === `\\` && t + 1 < line.length && /["\\$`]/.test(line[t + 1]))
+                        t += 1;
+
+                    current += line[t];
+                }
+
+                if (!closed) {
+                    throw new UsageError(`Unterminated quoted string`);
+                }
+            } break;
+
+            case `\\`: {
+                if (t + 1 < line.length) {
+                    t += 1;
+                    current += line[t];
+                }
+            } break;
+
+            default: {
+                current += char;
+            } break;
+        }
+    }
+
+    if (hasToken)
+        tokens.push(current);
+
+    return tokens;
+}
@@ -1,9 +1,13 @@
 import chaiAsPromised               from 'chai-as-promised';
 import chai, {expect}               from 'chai';
+import {mkdirSync, mkdtempSync, readFileSync, writeFileSync} from 'fs';
 import getStream                    from 'get-stream';
+import {tmpdir}                     from 'os';
+import {join}                       from 'path';
 import {PassThrough}                from 'stream';
+import * as t                       from 'typanion';
 
-import {Cli, CommandClass, Command, CliOptions} from '../sources/advanced';
+import {Cli, CommandClass, Command, CliOptions, ConfigurationSource, UnknownSyntaxError, UsageError, findBreakingChanges, makeRcFileSource, parseCli, runCli as runTestCli} from '../sources/advanced';
 
 chai.use(chaiAsPromised);
 
@@ -111,6 +115,74 @@ describe(`Advanced`, () => {
 
             });
         });
+
+        describe(`completion`, () => {
+            it(`should print the completion script of the requested shell`, async () => {
+                const cli = new Cli({binaryName: `my-tool`});
+                cli.register(Command.Entries.Completion);
+
+                for (const shell of [`bash`, `zsh`, `fish`]) {
+                    const output = await runCli(cli, [`--clipanion=completion`, shell]);
+
+                    expect(output).to.equal(cli.completionScript(shell));
+                    expect(output).to.include(`my-tool --clipanion=completion --cword=`);
+                    expect(output).to.include(`_my_tool_completions`);
+
+                    // The options and their bound values must reach the binary as a single word
+                    if (shell === `bash`) {
+                        expect(output).to.include(`_get_comp_words_by_ref -n =: words cword`);
+                    }
+                }
+            });
+
+            it(`should reject unsupported shells`, async () => {
+                const cli = new Cli({binaryName: `my-tool`});
+                cli.register(Command.Entries.Completion);
+
+                await expect(runCli(cli, [`--clipanion=completion`, `powershell`])).to.be.rejectedWith(`Unsupported shell "powershell"`);
+            });
+
+            it(`should answer completion queries`, async () => {
+                const cli = new Cli({binaryName: `my-tool`});
+                cli.register(Command.Entries.Completion);
+
+                cli.register(class InstallCommand extends Command {
+                    frozenLockfile = Command.Boolean(`--frozen-lockfile`);
+                    static paths = [[`install`]];
+                    async execute() {}
+                });
+
+                cli.register(class InitCommand extends Command {
+                    static paths = [[`init`]];
+                    async execute() {}
+                });
+
+                expect(await runCli(cli, [`--clipanion=completion`, `--cword=1`, `bash`, `my-tool`, `in`])).to.equal(`init\ninstall\n`);
+                expect(await runCli(cli, [`--clipanion=completion`, `--cword=2`, `bash`, `my-tool`, `install`, `--fro`])).to.equal(`--frozen-lockfile\n`);
+                expect(await runCli(cli, [`--clipanion=completion`, `--cword=2`, `bash`, `my-tool`, `unknown`, ``])).to.equal(``);
+            });
+
+            it(`should complete values through the completion providers`, async () => {
+                const cli = new Cli({binaryName: `my-tool`});
+
+                cli.register(class DeployCommand extends Command {
+                    env = Command.String(`--env`, {complete: Command.Completions.Choices([`production`, `staging`])});
+                    target = Command.String({complete: async () => [`eu-west`, `us-east`]});
+                    static paths = [[`deploy`]];
+                    async execute() {}
+                });
+
+                expect(await cli.completions([`my-tool`, `deploy`, `--env`, ``], 3)).to.deep.equal([`production`, `staging`]);
+                expect(await cli.completions([`my-tool`, `deploy`, `--env`, `st`], 3)).to.deep.equal([`staging`]);
+                expect(await cli.completions([`my-tool`, `deploy`, `u`], 2)).to.deep.equal([`us-east`]);
+
+                expect(await cli.completions([`my-tool`, `deploy`, `--env=`], 2)).to.deep.equal([`--env=production`, `--env=staging`]);
+                expect(await cli.completions([`my-tool`, `deploy`, `--env=st`], 2)).to.deep.equal([`--env=staging`]);
+
+                // The synchronous suggestions don't go through the providers
+                expect(cli.suggest([`deploy`, `--env`], false)).to.deep.equal([]);
+            });
+        });
     });
 
     it(`should print the general help listing when using --help on the raw command`, async () => {
@@ -628,6 +700,22 @@ describe(`Advanced`, () => {
         expect(cli.process([`hello`])).to.contain({thing: `hello`});
     });
 
+    it(`should validate the string positionals`, async () => {
+        class SleepCommand extends Command {
+            duration = Command.String({validator: t.isNumber()});
+            unit = Command.String({required: false, validator: t.isEnum([`s`, `ms`])});
+            async execute() {}
+        }
+
+        const cli = Cli.from([SleepCommand]);
+
+        expect(cli.process([`42`])).to.contain({duration: 42, unit: undefined});
+        expect(cli.process([`42`, `ms`])).to.contain({duration: 42, unit: `ms`});
+
+        expect(() => cli.process([`forever`])).to.throw(`Invalid option validation for duration: expected a number (got "forever")`);
+        expect(() => cli.process([`42`, `h`])).to.throw(`Invalid option validation for unit`);
+    });
+
     it(`should support optional string positionals after required string positionals`, async () => {
         class CopyCommand extends Command {
             requiredThing = Command.String();
@@ -815,4 +903,2362 @@ describe(`Advanced`, () => {
         expect(() => cli.process([`--no-no-redacted`])).to.throw(`Unsupported option name ("--no-no-redacted")`);
         expect(() => cli.process([`--no-no-no-redacted`])).to.throw(`Unsupported option name ("--no-no-no-redacted")`);
     });
+
+    it(`should print the typo suggestions along with unknown syntax errors`, async () => {
+        const cli = Cli.from([
+            class InstallCommand extends Command {
+                frozenLockfile = Command.Boolean(`--frozen-lockfile`);
+
+                static paths = [[`install`]];
+                async execute() {}
+            },
+        ], {enableColors: false});
+
+        await expect(runCli(cli, [`install`, `--frozen-lockfil`])).to.be.rejectedWith(`Did you mean --frozen-lockfile?`);
+        await expect(runCli(cli, [`instal`])).to.be.rejectedWith(`Did you mean install?`);
+    });
+
+    it(`should read options from the environment when they aren't set on the command line`, async () => {
+        class CommandA extends Command {
+            registry = Command.String(`--registry`, {env: `MYTOOL_REGISTRY`});
+            verbose = Command.Boolean(`--verbose`, {env: `MYTOOL_VERBOSE`});
+            level = Command.Counter(`-l,--level`, {env: `MYTOOL_LEVEL`});
+            tags = Command.Array(`--tag`, {env: `MYTOOL_TAG`});
+
+            async execute() {}
+        }
+
+        const cli = Cli.from([CommandA]);
+        const env = {MYTOOL_REGISTRY: `https://example.org`, MYTOOL_VERBOSE: `true`, MYTOOL_LEVEL: `2`, MYTOOL_TAG: `latest`};
+
+        expect(cli.process([], {env})).to.contain({registry: `https://example.org`, verbose: true, level: 2});
+        expect(cli.process([], {env})).to.have.deep.property(`tags`, [`latest`]);
+
+        expect(cli.process([`--registry`, `https://example.com`, `--no-verbose`, `-l`, `--tag`, `next`], {env})).to.contain({registry: `https://example.com`, verbose: false, level: 3});
+        expect(cli.process([`--tag`, `next`], {env})).to.have.deep.property(`tags`, [`next`]);
+
+        expect(cli.process([])).to.contain({registry: undefined, verbose: undefined, level: undefined, tags: undefined});
+    });
+
+    it(`should validate the options read from the environment`, async () => {
+        class CommandA extends Command {
+            retries = Command.String(`--retries`, {env: `MYTOOL_RETRIES`, validator: t.isNumber()});
+            verbose = Command.Boolean(`--verbose`, {env: `MYTOOL_VERBOSE`});
+
+            async execute() {}
+        }
+
+        const cli = Cli.from([CommandA]);
+
+        expect(cli.process([], {env: {MYTOOL_RETRIES: `3`}})).to.contain({retries: 3});
+        expect(() => cli.process([], {env: {MYTOOL_RETRIES: `foo`}})).to.throw(`Invalid option validation for retries`);
+        expect(() => cli.process([], {env: {MYTOOL_RETRIES: `3`, MYTOOL_VERBOSE: `maybe`}})).to.throw(`Invalid value for the MYTOOL_VERBOSE environment variable`);
+    });
+
+    it(`should print the environment variables in the option list`, async () => {
+        class CommandA extends Command {
+            registry = Command.String(`--registry`, {env: `MYTOOL_REGISTRY`, description: `The registry to use`});
+            verbose = Command.Boolean(`--verbose`, {env: `MYTOOL_VERBOSE`});
+
+            static usage = Command.Usage({});
+
+            static paths = [[`publish`]];
+            async execute() {}
+        }
+
+        const cli = Cli.from([CommandA], {enableColors: false});
+
+        expect(cli.usage(CommandA, {detailed: true})).to.equal(`$ ... publish\n\n\u001b[1mOptions:\u001b[22m\n\n  --registry #0    The registry to use (env: MYTOOL_REGISTRY)\n  --verbose        (env: MYTOOL_VERBOSE)\n`);
+        expect(cli.definitions()[0].options).to.deep.equal([
+            {definition: `--registry #0`, names: [`--registry`], arity: 1, description: `The registry to use`, env: `MYTOOL_REGISTRY`},
+            {definition: `--verbose`, names: [`--verbose`], arity: 0, description: undefined, env: `MYTOOL_VERBOSE`},
+        ]);
+    });
+
+    it(`should read options from the configuration sources`, async () => {
+        class CommandA extends Command {
+            registry = Command.String(`--registry`, `https://default.org`, {env: `MYTOOL_REGISTRY`});
+            verbose = Command.Boolean(`--verbose`, false);
+            tags = Command.Array(`--tag`);
+
+            async execute() {}
+        }
+
+        const primary: ConfigurationSource = {
+            load: () => ({origin: `primary`, values: {registry: `https://primary.org`}}),
+        };
+
+        const secondary: ConfigurationSource = {
+            load: () => ({origin: `secondary`, values: {registry: `https://secondary.org`, verbose: true, tags: [`a`, `b`]}}),
+        };
+
+        const cli = Cli.from([CommandA], {configuration: [primary, secondary]});
+
+        expect(cli.process([])).to.contain({registry: `https://primary.org`, verbose: true});
+        expect(cli.process([])).to.have.deep.property(`tags`, [`a`, `b`]);
+
+        expect(cli.process([], {env: {MYTOOL_REGISTRY: `https://env.org`}})).to.contain({registry: `https://env.org`});
+        expect(cli.process([`--registry`, `https://argv.org`, `--no-verbose`], {env: {MYTOOL_REGISTRY: `https://env.org`}})).to.contain({registry: `https://argv.org`, verbose: false});
+
+        expect(Cli.from([CommandA]).process([])).to.contain({registry: `https://default.org`, verbose: false});
+    });
+
+    it(`should find the closest rc file from the current directory`, async () => {
+        const root = mkdtempSync(join(tmpdir(), `clipanion-`));
+        const cwd = join(root, `packages`, `foo`);
+
+        mkdirSync(cwd, {recursive: true});
+        writeFileSync(join(root, `.mytoolrc`), `# Settings\nregistry: "https://rc.org"\nretries: 3\nverbose: true\n`);
+
+        class CommandA extends Command {
+            registry = Command.String(`--registry`);
+            retries = Command.String(`--retries`, {validator: t.isNumber()});
+            verbose = Command.Boolean(`--verbose`);
+
+            async execute() {}
+        }
+
+        const cli = Cli.from([CommandA], {configuration: [makeRcFileSource({filename: `.mytoolrc`})]});
+        expect(cli.process([], {cwd})).to.contain({registry: `https://rc.org`, retries: 3, verbose: true});
+
+        writeFileSync(join(cwd, `.mytoolrc`), `{"registry": "https://json.org", "retries": 1}`);
+        expect(cli.process([], {cwd})).to.contain({registry: `https://json.org`, retries: 1, verbose: undefined});
+
+        writeFileSync(join(cwd, `.mytoolrc`), `{"retries": 1, "verbose": "maybe"}`);
+        expect(() => cli.process([], {cwd})).to.throw(`Invalid value for the verbose setting from ${join(cwd, `.mytoolrc`)}: expected a boolean, got "maybe"`);
+    });
+
+    it(`should report the malformed rc files`, async () => {
+        const cwd = mkdtempSync(join(tmpdir(), `clipanion-`));
+
+        class CommandA extends Command {
+            registry = Command.String(`--registry`);
+
+            async execute() {}
+        }
+
+        const cli = Cli.from([CommandA], {configuration: [makeRcFileSource({filename: `.mytoolrc`})]});
+
+        writeFileSync(join(cwd, `.mytoolrc`), `{"registry": `);
+        expect(() => cli.process([], {cwd})).to.throw(UsageError, `Invalid configuration file (${join(cwd, `.mytoolrc`)})`);
+
+        writeFileSync(join(cwd, `.mytoolrc`), `# Settings\nregistry: "https://rc\\q.org"\n`);
+        expect(() => cli.process([], {cwd})).to.throw(UsageError, `Invalid configuration file (${join(cwd, `.mytoolrc`)}): `);
+        expect(() => cli.process([], {cwd})).to.throw(/ on line 2$/);
+    });
+
+    it(`should only read the configuration sources once per run`, async () => {
+        class CommandA extends Command {
+            registry = Command.String(`--registry`);
+            verbose = Command.Boolean(`--verbose`);
+
+            static paths = [[`publish`]];
+            async execute() {
+                this.context.stdout.write(this.cli.usage(CommandA, {detailed: true}));
+            }
+        }
+
+        let loadCount = 0;
+
+        const source: ConfigurationSource = {
+            load: () => {
+                loadCount += 1;
+                return {origin: `/project/.mytoolrc`, values: {verbose: true}};
+            },
+        };
+
+        const cli = Cli.from([CommandA], {enableColors: false, configuration: [source]});
+
+        await runCli(cli, [`publish`, `-h`]);
+        expect(loadCount).to.equal(1);
+
+        await runCli(cli, [`publish`]);
+        expect(loadCount).to.equal(2);
+
+        cli.process([`publish`]);
+        expect(loadCount).to.equal(3);
+    });
+
+    it(`should resolve the default working directory when it's read`, async () => {
+        const initialCwd = process.cwd();
+        const cwd = mkdtempSync(join(tmpdir(), `clipanion-`));
+
+        try {
+            process.chdir(cwd);
+            expect(Cli.defaultContext.cwd).to.equal(process.cwd());
+        } finally {
+            process.chdir(initialCwd);
+        }
+
+        expect(Cli.defaultContext.cwd).to.equal(initialCwd);
+    });
+
+    it(`should print where the defaults come from in the help`, async () => {
+        class CommandA extends Command {
+            registry = Command.String(`--registry`, {env: `MYTOOL_REGISTRY`});
+            verbose = Command.Boolean(`--verbose`);
+            hidden = Command.Boolean(`--hidden`, {hidden: true});
+
+            static paths = [[`publish`]];
+            async execute() {}
+        }
+
+        const cli = Cli.from([CommandA], {
+            enableColors: false,
+            configuration: [{load: () => ({origin: `/project/.mytoolrc`, values: {verbose: true, hidden: true}})}],
+        });
+
+        const options = `\u001b[1mOptions:\u001b[22m\n\n  --registry #0    (env: MYTOOL_REGISTRY)\n`;
+
+        expect(await runCli(cli, [`publish`, `-h`])).to.equal(`$ ... publish [--verbose]\n\n${options}\nDefaults:\n\n  --verbose    true (from /project/.mytoolrc)\n`);
+        expect(cli.usage(CommandA, {detailed: true, context: {env: {MYTOOL_REGISTRY: `https://env.org`}}})).to.equal(`$ ... publish [--verbose]\n\n${options}\nDefaults:\n\n  --registry    "https://env.org" (from $MYTOOL_REGISTRY)\n  --verbose     true (from /project/.mytoolrc)\n`);
+    });
+
+    it(`should report the configuration errors when printing the help`, async () => {
+        class CommandA extends Command {
+            registry = Command.String(`--registry`);
+
+            static paths = [[`publish`]];
+            async execute() {}
+        }
+
+        let loadCount = 0;
+
+        const cli = Cli.from([CommandA], {
+            enableColors: false,
+            configuration: [{
+                load: () => {
+                    // The first read is the one of `process` below
+                    if (loadCount++ > 0)
+                        throw new UsageError(`Invalid configuration`);
+
+                    return null;
+                },
+            }],
+        });
+
+        const command = cli.process([`publish`]);
+        command.help = true;
+
+        const stderr = new PassThrough();
+        const promise = getStream(stderr);
+
+        expect(await cli.run(command, {stdin: process.stdin, stdout: new PassThrough(), stderr})).to.equal(1);
+
+        stderr.end();
+        expect(await promise).to.contain(`Usage Error: Invalid configuration\n`);
+
+        const result = await runTestCli(cli, [`publish`, `-h`]);
+        expect(result.exitCode).to.equal(1);
+        expect(result.stdout).to.equal(``);
+        expect(result.stderr).to.contain(`Usage Error: Invalid configuration\n`);
+    });
+});
+
+describe(`Prompts`, () => {
+    const runWithPrompts = async (cli: Cli, args: string[], answers: string[], {isTTY = true}: {isTTY?: boolean} = {}) => {
+        const stdin = Object.assign(new PassThrough(), {isTTY});
+        const stdout = Object.assign(new PassThrough(), {isTTY});
+        const promise = getStream(stdout);
+
+        stdin.end(answers.map(answer => `${answer}\n`).join(``));
+
+        const exitCode = await cli.run(args, {stdin, stdout, stderr: stdout});
+        stdout.end();
+
+        return {exitCode, output: await promise};
+    };
+
+    class CopyCommand extends Command {
+        sources = Command.Rest({required: 1});
+        destination = Command.String();
+
+        static paths = [[`cp`]];
+        async execute() {
+            log(this, [`sources`, `destination`]);
+        }
+    }
+
+    it(`should prompt for the missing required positionals`, async () => {
+        const cli = Cli.from([CopyCommand], {enableColors: false, enablePrompts: true});
+
+        expect(await runWithPrompts(cli, [`cp`], [`foo`, `bar`])).to.deep.equal({
+            exitCode: 0,
+            output: `sources: destination: Running CopyCommand\n["foo"]\n"bar"\n`,
+        });
+
+        expect(await runWithPrompts(cli, [`cp`, `foo`], [`bar`])).to.deep.equal({
+            exitCode: 0,
+            output: `destination: Running CopyCommand\n["foo"]\n"bar"\n`,
+        });
+    });
+
+    it(`should prompt again when the answer doesn't pass the validator`, async () => {
+        class CommandA extends Command {
+            count = Command.String({validator: t.isNumber()});
+
+            async execute() {
+                log(this, [`count`]);
+            }
+        }
+
+        const cli = Cli.from([CommandA], {enableColors: false, enablePrompts: true});
+
+        expect(await runWithPrompts(cli, [], [`foo`, `42`])).to.deep.equal({
+            exitCode: 0,
+            output: `count: Usage Error: Invalid option validation for count: expected a number (got "foo")\ncount: Running CommandA\n42\n`,
+        });
+    });
+
+    it(`should only fill the missing required positionals`, async () => {
+        class TagCommand extends Command {
+            tag = Command.String(`--tag`);
+            name = Command.String();
+            description = Command.String({required: false});
+
+            static paths = [[`release`]];
+            async execute() {
+                log(this, [`tag`, `name`, `description`]);
+            }
+        }
+
+        class ReleaseCommand extends Command {
+            tag = Command.Boolean(`--tag`);
+            name = Command.String();
+            version = Command.String();
+            channel = Command.String();
+            notes = Command.String();
+
+            static paths = [[`release`]];
+            async execute() {
+                log(this, [`tag`, `name`, `version`, `channel`, `notes`]);
+            }
+        }
+
+        const cli = Cli.from([TagCommand, ReleaseCommand], {enableColors: false, enablePrompts: true});
+
+        expect(await runWithPrompts(cli, [`release`, `--tag`], [`foo`, `1.0.0`, `stable`, `Initial release`])).to.deep.equal({
+            exitCode: 0,
+            output: `name: version: channel: notes: Running ReleaseCommand\ntrue\n"foo"\n"1.0.0"\n"stable"\n"Initial release"\n`,
+        });
+    });
+
+    it(`should keep failing when the streams aren't TTYs`, async () => {
+        const cli = Cli.from([CopyCommand], {enableColors: false, enablePrompts: true});
+
+        const {exitCode, output} = await runWithPrompts(cli, [`cp`], [`foo`, `bar`], {isTTY: false});
+
+        expect(exitCode).to.equal(1);
+        expect(output).to.contain(`Not enough positional arguments`);
+    });
+
+    it(`should keep failing when the input ends before all answers are given`, async () => {
+        const cli = Cli.from([CopyCommand], {enableColors: false, enablePrompts: true});
+
+        const {exitCode, output} = await runWithPrompts(cli, [`cp`], [`foo`]);
+
+        expect(exitCode).to.equal(1);
+        expect(output).to.contain(`Not enough positional arguments`);
+    });
+});
+
+describe(`Shell`, () => {
+    const runRepl = async (cli: Cli, lines: string[]) => {
+        const stdin = new PassThrough();
+        const stdout = new PassThrough();
+        const promise = getStream(stdout);
+
+        stdin.end(lines.map(line => `${line}\n`).join(``));
+
+        const exitCode = await cli.repl({stdin, stdout, stderr: stdout}, {prompt: `> `});
+        stdout.end();
+
+        return {exitCode, output: await promise};
+    };
+
+    class EchoCommand extends Command {
+        args = Command.Rest();
+
+        static paths = [[`echo`]];
+        async execute() {
+            log(this, [`args`]);
+        }
+    }
+
+    class FailCommand extends Command {
+        static paths = [[`fail`]];
+        async execute() {
+            return 42;
+        }
+    }
+
+    it(`should run each line as a command`, async () => {
+        const cli = Cli.from([EchoCommand, FailCommand], {enableColors: false});
+
+        expect(await runRepl(cli, [`echo foo`, ``, `fail`])).to.deep.equal({
+            exitCode: 42,
+            output: `> Running EchoCommand\n["foo"]\n> > > `,
+        });
+    });
+
+    it(`should support shell-like quoting`, async () => {
+        const cli = Cli.from([EchoCommand], {enableColors: false});
+
+        expect(await runRepl(cli, [`echo 'foo bar' "a \\"b\\" c" d\\ e ''`])).to.deep.equal({
+            exitCode: 0,
+            output: `> Running EchoCommand\n["foo bar","a \\"b\\" c","d e",""]\n> `,
+        });
+    });
+
+    it(`should report unterminated quotes and keep going`, async () => {
+        const cli = Cli.from([EchoCommand], {enableColors: false});
+
+        expect(await runRepl(cli, [`echo 'foo`, `echo bar`])).to.deep.equal({
+            exitCode: 0,
+            output: `> Usage Error: Unterminated quoted string\n> Running EchoCommand\n["bar"]\n> `,
+        });
+    });
+
+    it(`should keep reading the input when the completions fail`, async () => {
+        const cli = Cli.from([EchoCommand], {enableColors: false});
+        cli.completions = async () => {
+            throw new Error(`Completions failed`);
+        };
+
+        const stdin = Object.assign(new PassThrough(), {isTTY: true});
+        const stdout = Object.assign(new PassThrough(), {isTTY: true});
+        const promise = getStream(stdout);
+
+        // The keys only trigger the completion when written on their own
+        stdin.write(`echo foo`);
+        stdin.write(`\t`);
+        stdin.end(`\n`);
+
+        expect(await cli.repl({stdin, stdout, stderr: stdout}, {prompt: `> `})).to.equal(0);
+        stdout.end();
+
+        expect(await promise).to.contain(`Running EchoCommand\n["foo"]\n`);
+    });
+
+    it(`should stop when typing exit`, async () => {
+        const cli = Cli.from([EchoCommand], {enableColors: false});
+
+        expect(await runRepl(cli, [`exit`, `echo foo`])).to.deep.equal({
+            exitCode: 0,
+            output: `> `,
+        });
+    });
+
+    it(`should share the context between the commands`, async () => {
+        class IncrementCommand extends Command<{stdin: any, stdout: any, stderr: any, counter: {value: number}}> {
+            static paths = [[`increment`]];
+            async execute() {
+                this.context.counter.value += 1;
+            }
+        }
+
+        const cli = Cli.from([IncrementCommand]);
+
+        const stdin = new PassThrough();
+        const stdout = new PassThrough();
+        stdin.end(`increment\nincrement\n`);
+
+        const counter = {value: 0};
+        await cli.repl({stdin, stdout, stderr: stdout, counter});
+
+        expect(counter.value).to.equal(2);
+    });
+
+    it(`should be available through the Shell entry`, async () => {
+        const cli = Cli.from([EchoCommand, Command.Entries.Shell], {binaryName: `mytool`, enableColors: false});
+
+        const stdin = new PassThrough();
+        const stdout = new PassThrough();
+        const promise = getStream(stdout);
+
+        stdin.end(`echo foo\n`);
+
+        const exitCode = await cli.run([`shell`], {stdin, stdout, stderr: stdout});
+        stdout.end();
+
+        expect(exitCode).to.equal(0);
+        expect(await promise).to.equal(`mytool> Running EchoCommand\n["foo"]\nmytool> `);
+    });
+});
+
+describe(`Middlewares`, () => {
+    it(`should wrap the execution of the commands`, async () => {
+        class CommandA extends Command {
+            static paths = [[`a`]];
+            async execute() {
+                log(this);
+                return 3;
+            }
+        }
+
+        const cli = Cli.from([CommandA]);
+
+        cli.use(async (command, next) => {
+            command.context.stdout.write(`Before ${command.path.join(` `)}\n`);
+            const exitCode = await next();
+            command.context.stdout.write(`After (${exitCode})\n`);
+            return exitCode;
+        });
+
+        cli.use(async (command, next) => {
+            command.context.stdout.write(`Inner\n`);
+            return await next() + 1;
+        });
+
+        const stream = new PassThrough();
+        const promise = getStream(stream);
+
+        const exitCode = await cli.run([`a`], {stdin: process.stdin, stdout: stream, stderr: stream});
+        stream.end();
+
+        expect(exitCode).to.equal(4);
+        expect(await promise).to.equal(`Before a\nInner\nRunning CommandA\nAfter (4)\n`);
+    });
+
+    it(`should allow middlewares to prevent the execution`, async () => {
+        class CommandA extends Command {
+            async execute() {
+                log(this);
+            }
+        }
+
+        const cli = Cli.from([CommandA]);
+
+        cli.use(async command => {
+            command.context.stdout.write(`Unauthorized\n`);
+            return 1;
+        });
+
+        const stream = new PassThrough();
+        const promise = getStream(stream);
+
+        const exitCode = await cli.run([], {stdin: process.stdin, stdout: stream, stderr: stream});
+        stream.end();
+
+        expect(exitCode).to.equal(1);
+        expect(await promise).to.equal(`Unauthorized\n`);
+    });
+
+    it(`should run the middlewares after the schema validation`, async () => {
+        class CommandA extends Command {
+            foo = Command.Boolean(`--foo`);
+            bar = Command.Boolean(`--bar`);
+
+            static schema = [t.hasMutuallyExclusiveKeys([`foo`, `bar`], {missingIf: `falsy`})];
+
+            async execute() {}
+        }
+
+        let calls = 0;
+
+        const cli = Cli.from([CommandA], {enableColors: false});
+        cli.use(async (command, next) => {
+            calls += 1;
+            return await next();
+        });
+
+        await expect(runCli(cli, [`--foo`, `--bar`])).to.be.rejectedWith(`Invalid option schema`);
+        expect(calls).to.equal(0);
+
+        await expect(runCli(cli, [`--foo`])).to.be.fulfilled;
+        expect(calls).to.equal(1);
+    });
+
+    it(`should reject the middlewares calling next more than once`, async () => {
+        class CommandA extends Command {
+            async execute() {
+                log(this);
+            }
+        }
+
+        const cli = Cli.from([CommandA], {enableColors: false});
+
+        cli.use(async (command, next) => {
+            await next();
+            return await next();
+        });
+
+        const stream = new PassThrough();
+        const promise = getStream(stream);
+
+        const exitCode = await cli.run([], {stdin: process.stdin, stdout: stream, stderr: stream});
+        stream.end();
+
+        const output = await promise;
+
+        expect(exitCode).to.equal(1);
+        expect(output).to.match(/^Running CommandA\nInternal Error: A middleware cannot call next more than once\n/);
+    });
+
+    it(`should call the before and after hooks of the command`, async () => {
+        class CommandA extends Command {
+            static async before(command: CommandA) {
+                command.context.stdout.write(`Before\n`);
+            }
+
+            static async after(command: CommandA, exitCode: number) {
+                command.context.stdout.write(`After (${exitCode})\n`);
+                return exitCode + 10;
+            }
+
+            async execute() {
+                log(this);
+                return 1;
+            }
+        }
+
+        class CommandB extends CommandA {
+            static paths = [[`b`]];
+        }
+
+        const cli = Cli.from([CommandA, CommandB]);
+
+        const stream = new PassThrough();
+        const promise = getStream(stream);
+
+        const exitCode = await cli.run([`b`], {stdin: process.stdin, stdout: stream, stderr: stream});
+        stream.end();
+
+        expect(exitCode).to.equal(11);
+        expect(await promise).to.equal(`Before\nRunning CommandB\nAfter (1)\n`);
+    });
+
+    it(`should not execute the command when the before hook throws`, async () => {
+        class CommandA extends Command {
+            static before() {
+                throw new UsageError(`Not logged in`);
+            }
+
+            async execute() {
+                log(this);
+            }
+        }
+
+        const cli = Cli.from([CommandA], {enableColors: false});
+
+        await expect(runCli(cli, [])).to.be.rejectedWith(`Usage Error: Not logged in`);
+    });
+});
+
+describe(`Lazy commands`, () => {
+    class InstallCommand extends Command {
+        force = Command.Boolean(`-f,--force`, {description: `Force the installation`});
+        packages = Command.Rest();
+
+        static paths = [[`install`]];
+
+        static usage = Command.Usage({
+            description: `install packages`,
+        });
+
+        async execute() {
+            log(this, [`force`, `packages`]);
+        }
+    }
+
+    class RemoveCommand extends Command {
+        name = Command.String();
+
+        static paths = [[`remove`]];
+        async execute() {
+            log(this, [`name`]);
+        }
+    }
+
+    const makeCli = (loaded: string[]) => {
+        const cli = new Cli({enableColors: false});
+
+        const manifests = JSON.parse(JSON.stringify([
+            Cli.getManifest(InstallCommand),
+            Cli.getManifest(RemoveCommand),
+        ]));
+
+        cli.registerLazy({...manifests[0], load: async () => {
+            loaded.push(`install`);
+            return {default: InstallCommand};
+        }});
+
+        cli.registerLazy({...manifests[1], load: async () => {
+            loaded.push(`remove`);
+            return RemoveCommand;
+        }});
+
+        return cli;
+    };
+
+    it(`should only load the selected command`, async () => {
+        const loaded: string[] = [];
+        const cli = makeCli(loaded);
+
+        expect(await runCli(cli, [`install`, `-f`, `foo`, `bar`])).to.equal(`Running InstallCommand\ntrue\n["foo","bar"]\n`);
+        expect(loaded).to.deep.equal([`install`]);
+
+        expect(await runCli(cli, [`remove`, `foo`])).to.equal(`Running RemoveCommand\n"foo"\n`);
+        expect(await runCli(cli, [`install`])).to.equal(`Running InstallCommand\nundefined\n[]\n`);
+        expect(loaded).to.deep.equal([`install`, `remove`]);
+    });
+
+    it(`should print the usage without loading the commands`, async () => {
+        const loaded: string[] = [];
+        const cli = makeCli(loaded);
+
+        expect(cli.usage(null)).to.contain(`install [-f,--force] ...\n    install packages\n`);
+        expect(loaded).to.deep.equal([]);
+    });
+
+    it(`should report syntax errors without loading the commands`, async () => {
+        const loaded: string[] = [];
+        const cli = makeCli(loaded);
+
+        await expect(runCli(cli, [`remove`])).to.be.rejectedWith(`Not enough positional arguments`);
+        await expect(runCli(cli, [`install`, `--foo`])).to.be.rejectedWith(`Unsupported option name ("--foo")`);
+        expect(loaded).to.deep.equal([]);
+    });
+
+    it(`should detect outdated manifests`, async () => {
+        const cli = new Cli({enableColors: false});
+
+        cli.registerLazy({...Cli.getManifest(RemoveCommand), load: async () => InstallCommand});
+
+        await expect(runCli(cli, [`remove`, `foo`])).to.be.rejectedWith(`The manifest of InstallCommand is out of date`);
+    });
+
+    it(`should detect manifests whose arities or positionals are outdated`, async () => {
+        class TagCommandV1 extends Command {
+            tag = Command.String(`--tag`);
+            name = Command.String();
+
+            static paths = [[`tag`]];
+            async execute() {}
+        }
+
+        class TagCommandV2 extends Command {
+            tag = Command.Array(`--tag`, {arity: 2});
+            name = Command.String();
+
+            static paths = [[`tag`]];
+            async execute() {}
+        }
+
+        class TagCommandV3 extends Command {
+            tag = Command.String(`--tag`);
+            name = Command.String({required: false});
+
+            static paths = [[`tag`]];
+            async execute() {}
+        }
+
+        const arityCli = new Cli({enableColors: false});
+        arityCli.registerLazy({...Cli.getManifest(TagCommandV1), load: async () => TagCommandV2});
+
+        await expect(runCli(arityCli, [`tag`, `foo`])).to.be.rejectedWith(`The manifest of TagCommandV2 is out of date (expected --tag to take 2 arguments, got 1)`);
+
+        const positionalCli = new Cli({enableColors: false});
+        positionalCli.registerLazy({...Cli.getManifest(TagCommandV1), load: async () => TagCommandV3});
+
+        await expect(runCli(positionalCli, [`tag`, `foo`])).to.be.rejectedWith(`The manifest of TagCommandV3 is out of date (expected positionals ["name (optional)"], got ["name (required)"])`);
+    });
+
+    it(`should register the manifests that don't list the positionals`, async () => {
+        class PingCommand extends Command {
+            verbose = Command.Boolean(`-v`);
+
+            static paths = [[`ping`]];
+            async execute() {
+                this.context.stdout.write(`pong\n`);
+            }
+        }
+
+        class TagCommand extends Command {
+            name = Command.String();
+
+            static paths = [[`tag`]];
+            async execute() {}
+        }
+
+        const {positionals: pingPositionals, ...pingManifest} = Cli.getManifest(PingCommand);
+        const {positionals: tagPositionals, ...tagManifest} = Cli.getManifest(TagCommand);
+
+        const cli = new Cli({enableColors: false});
+        cli.registerLazy({...pingManifest, load: async () => PingCommand});
+        cli.registerLazy({...tagManifest, load: async () => TagCommand});
+
+        expect(await runCli(cli, [`ping`, `-v`])).to.equal(`pong\n`);
+        await expect(runCli(cli, [`tag`, `foo`])).to.be.rejectedWith(`The manifest of TagCommand is out of date (expected positionals ["name (required)"], got [])`);
+    });
+
+    it(`should complete the choices without loading the commands`, async () => {
+        class DeployCommand extends Command {
+            env = Command.String(`--env`, {choices: [`production`, `staging`]});
+            region = Command.String({choices: [`eu-west`, `us-east`]});
+
+            static paths = [[`deploy`]];
+            async execute() {}
+        }
+
+        const eagerCli = Cli.from([DeployCommand]);
+
+        const lazyCli = new Cli();
+        lazyCli.registerLazy({...JSON.parse(JSON.stringify(Cli.getManifest(DeployCommand))), load: async () => {
+            throw new Error(`Assertion failed: Expected the command not to be loaded`);
+        }});
+
+        for (const cli of [eagerCli, lazyCli]) {
+            expect(await cli.completions([`my-tool`, `deploy`, `--env`, ``], 3)).to.deep.equal([`production`, `staging`]);
+            expect(await cli.completions([`my-tool`, `deploy`, `--env=st`], 2)).to.deep.equal([`--env=staging`]);
+            expect(await cli.completions([`my-tool`, `deploy`, `u`], 2)).to.deep.equal([`us-east`]);
+        }
+    });
+
+    it(`should only process the lazy commands once loaded`, async () => {
+        const loaded: string[] = [];
+        const cli = makeCli(loaded);
+
+        expect(() => cli.process([`remove`, `foo`])).to.throw(`Lazy commands have to be loaded before being processed (use \`run\` instead)`);
+        expect(() => parseCli(cli, [`remove`, `foo`])).to.throw(`Lazy commands have to be loaded before being processed`);
+
+        await runCli(cli, [`remove`, `bar`]);
+
+        expect(cli.process([`remove`, `foo`])).to.contain({name: `foo`});
+        expect(parseCli(cli, [`remove`, `foo`])).to.contain({name: `foo`});
+    });
+});
+
+describe(`Compiled machine`, () => {
+    class CommandA extends Command {
+        verbose = Command.Boolean(`-v,--verbose`);
+        args = Command.Rest();
+
+        static paths = [[`a`]];
+        async execute() {
+            log(this, [`verbose`, `args`]);
+        }
+    }
+
+    class CommandB extends Command {
+        name = Command.String();
+
+        static paths = [[`b`]];
+        async execute() {
+            log(this, [`name`]);
+        }
+    }
+
+    it(`should only compile the machine once`, async () => {
+        const cli = Cli.from([CommandA]);
+        const {machine} = cli.serializeMachine();
+
+        await runCli(cli, [`a`, `-v`]);
+        expect(cli.serializeMachine().machine).to.equal(machine);
+
+        cli.register(CommandB);
+        expect(cli.serializeMachine().machine).not.to.equal(machine);
+    });
+
+    it(`should change the version when the registrations change`, async () => {
+        const cli = Cli.from([CommandA]);
+        const version = cli.getVersion();
+
+        expect(Cli.from([CommandA]).getVersion()).to.equal(version);
+        expect(Cli.from([CommandA], {binaryName: `foo`}).getVersion()).not.to.equal(version);
+
+        cli.register(CommandB);
+        expect(cli.getVersion()).not.to.equal(version);
+    });
+
+    it(`should load a machine serialized to JSON`, async () => {
+        const serialized = JSON.parse(JSON.stringify(Cli.from([CommandA, CommandB]).serializeMachine()));
+
+        const cli = Cli.from([CommandA, CommandB]);
+        expect(cli.loadMachine(serialized)).to.equal(true);
+        expect(cli.serializeMachine().machine).to.equal(serialized.machine);
+
+        expect(await runCli(cli, [`a`, `-v`, `foo`])).to.equal(`Running CommandA\ntrue\n["foo"]\n`);
+        expect(await runCli(cli, [`b`, `bar`])).to.equal(`Running CommandB\n"bar"\n`);
+        await expect(runCli(cli, [`b`])).to.be.rejectedWith(`Not enough positional arguments`);
+    });
+
+    it(`should ignore machines compiled from other commands`, async () => {
+        const serialized = Cli.from([CommandA]).serializeMachine();
+
+        const cli = Cli.from([CommandA, CommandB]);
+        expect(cli.loadMachine(serialized)).to.equal(false);
+
+        expect(await runCli(cli, [`b`, `bar`])).to.equal(`Running CommandB\n"bar"\n`);
+    });
+
+    it(`should format the machine as a Graphviz graph`, async () => {
+        const cli = Cli.from([CommandA, CommandB], {binaryName: `mytool`});
+        expect(cli.dot()).to.contain(`#0 mytool a`).and.to.contain(`#1 mytool b`);
+
+        // A serialized machine gets labelled the same way
+        const loaded = Cli.from([CommandA, CommandB], {binaryName: `mytool`});
+        loaded.loadMachine(JSON.parse(JSON.stringify(cli.serializeMachine())));
+        expect(loaded.dot({input: [`b`, `bar`]})).to.equal(cli.dot({input: [`b`, `bar`]}));
+        expect(loaded.dot({input: [`b`, `bar`]})).not.to.contain(`\\"a\\" / pushPath`);
+    });
+});
+
+describe(`Man pages`, () => {
+    class InstallCommand extends Command {
+        force = Command.Boolean(`-f,--force`, {description: `Ignore the \`lockfile\``});
+        registry = Command.String(`--registry`, {env: `MYTOOL_REGISTRY`});
+        secret = Command.Boolean(`--secret`, {hidden: true});
+        name = Command.String();
+
+        static paths = [[`install`]];
+
+        static usage = Command.Usage({
+            category: `Dependencies`,
+            description: `install a package`,
+            details: `
+                This command installs *packages*.
+
+                - Already installed packages are skipped
+                - .files are ignored
+            `,
+            examples: [[
+                `Install lodash`,
+                `$0 install lodash`,
+            ]],
+        });
+
+        async execute() {}
+    }
+
+    class RunCommand extends Command {
+        static paths = [[`run`]];
+        static usage = Command.Usage({});
+
+        async execute() {}
+    }
+
+    class DefaultCommand extends Command {
+        static usage = Command.Usage({description: `run the default action`});
+        async execute() {}
+    }
+
+    const makeCli = () => Cli.from([InstallCommand, RunCommand, DefaultCommand, Command.Entries.Manpage], {binaryName: `my-tool`, binaryVersion: `1.0.0`});
+
+    it(`should generate one page per command along with an index page`, async () => {
+        expect(makeCli().manpage().map(({name}) => name)).to.deep.equal([`my-tool.1`, `my-tool-install.1`, `my-tool-run.1`]);
+    });
+
+    it(`should render the usage of the commands`, async () => {
+        const [, install] = makeCli().manpage();
+
+        expect(install.content).to.equal([
+            `.TH "MY\\-TOOL\\-INSTALL" "1" "" "my\\-tool 1.0.0" "my\\-tool"`,
+            `.SH NAME`,
+            `my\\-tool\\-install \\- install a package`,
+            `.SH SYNOPSIS`,
+            `\\fBmy\\-tool\\fR \\fBinstall\\fR [\\-f,\\-\\-force] [\\-\\-registry #0] \\fI<name>\\fR`,
+            `.SH DESCRIPTION`,
+            `.PP`,
+            `This command installs \\fIpackages\\fR.`,
+            `.IP \\(bu 2`,
+            `Already installed packages are skipped`,
+            `.IP \\(bu 2`,
+            `\\&.files are ignored`,
+            `.SH OPTIONS`,
+            `.TP`,
+            `\\fB\\-f\\fR, \\fB\\-\\-force\\fR`,
+            `Ignore the \\fBlockfile\\fR`,
+            `.TP`,
+            `\\fB\\-\\-registry\\fR \\fI#0\\fR`,
+            `Environment variable: \\fBMYTOOL_REGISTRY\\fR`,
+            `.SH EXAMPLES`,
+            `.PP`,
+            `Install lodash`,
+            `.EX`,
+            `$ my\\-tool install lodash`,
+            `.EE`,
+            `.SH SEE ALSO`,
+            `.BR my\\-tool (1)`,
+            ``,
+        ].join(`\n`));
+    });
+
+    it(`should list the commands by category in the index page`, async () => {
+        const [index] = makeCli().manpage();
+
+        expect(index.content).to.equal([
+            `.TH "MY\\-TOOL" "1" "" "my\\-tool 1.0.0" "my\\-tool"`,
+            `.SH NAME`,
+            `my\\-tool`,
+            `.SH SYNOPSIS`,
+            `\\fBmy\\-tool\\fR \\fI<command>\\fR`,
+            `.SH COMMANDS`,
+            `.TP`,
+            `\\fBmy\\-tool\\fR`,
+            `run the default action`,
+            `.TP`,
+            `\\fBmy\\-tool\\fR \\fBrun\\fR`,
+            `undocumented`,
+            `.SS Dependencies`,
+            `.TP`,
+            `\\fBmy\\-tool\\fR \\fBinstall\\fR [\\-f,\\-\\-force] [\\-\\-registry #0] \\fI<name>\\fR`,
+            `install a package`,
+            `.SH SEE ALSO`,
+            `.BR my\\-tool\\-install (1),`,
+            `.BR my\\-tool\\-run (1)`,
+            ``,
+        ].join(`\n`));
+    });
+
+    it(`should write the pages through the Manpage entry`, async () => {
+        const output = join(mkdtempSync(join(tmpdir(), `clipanion-`)), `man1`);
+
+        expect(await runCli(makeCli(), [`--clipanion=manpage`, `--output`, output])).to.equal(`${join(output, `my-tool.1`)}\n${join(output, `my-tool-install.1`)}\n${join(output, `my-tool-run.1`)}\n`);
+        expect(readFileSync(join(output, `my-tool-run.1`), `utf8`)).to.equal(makeCli().manpage()[2].content);
+
+        expect(await runCli(makeCli(), [`--clipanion=manpage`])).to.equal(makeCli().manpage()[0].content);
+    });
+});
+
+describe(`Markdown`, () => {
+    class InstallCommand extends Command {
+        force = Command.Boolean(`-f,--force`, {description: `Ignore the \`lockfile\` | cache`});
+        registry = Command.String(`--registry`, {env: `MYTOOL_REGISTRY`});
+        secret = Command.Boolean(`--secret`, {hidden: true});
+        workspace = Command.String({description: `The target workspace`});
+        packages = Command.Rest({required: 1});
+
+        static paths = [[`workspace`, `install`]];
+
+        static usage = Command.Usage({
+            category: `Workspace commands`,
+            description: `install packages in a workspace`,
+            details: `
+                This command installs *packages*.
+
+                - Already installed packages are skipped
+                - Peer dependencies are ignored
+            `,
+            examples: [[
+                `Install lodash in the frontend`,
+                `$0 workspace install frontend lodash`,
+            ]],
+        });
+
+        async execute() {}
+    }
+
+    class ListCommand extends Command {
+        static paths = [[`workspace`, `list`]];
+        static usage = Command.Usage({description: `list the workspaces`});
+
+        async execute() {}
+    }
+
+    class RunCommand extends Command {
+        static paths = [[`run`]];
+        static usage = Command.Usage({});
+
+        async execute() {}
+    }
+
+    const makeCli = () => Cli.from([InstallCommand, ListCommand, RunCommand, Command.Entries.Markdown], {binaryName: `mytool`});
+
+    it(`should generate one page per command, grouped by category`, async () => {
+        expect(makeCli().markdown().map(({name}) => name)).to.deep.equal([
+            `index.md`,
+            `workspace-commands/workspace-install.md`,
+            `workspace-list.md`,
+            `run.md`,
+        ]);
+
+        expect(makeCli().markdown()[0].content).to.equal([
+            `# \`mytool\``,
+            ``,
+            `## Commands`,
+            ``,
+            `- [\`mytool run\`](run.md)`,
+            `- [\`mytool workspace list\`](workspace-list.md) - list the workspaces`,
+            ``,
+            `## Workspace commands`,
+            ``,
+            `- [\`mytool workspace install\`](workspace-commands/workspace-install.md) - install packages in a workspace`,
+            ``,
+        ].join(`\n`));
+    });
+
+    it(`should render the usage of the commands`, async () => {
+        expect(makeCli().markdown()[1].content).to.equal([
+            `# \`mytool workspace install\``,
+            ``,
+            `Install packages in a workspace`,
+            ``,
+            `## Usage`,
+            ``,
+            `\`\`\``,
+            `$ mytool workspace install [-f,--force] [--registry #0] <workspace> <packages> ...`,
+            `\`\`\``,
+            ``,
+            `## Arguments`,
+            ``,
+            `| Argument | Description |`,
+            `| --- | --- |`,
+            `| \`<workspace>\` | The target workspace |`,
+            `| \`<packages>...\` |  |`,
+            ``,
+            `## Options`,
+            ``,
+            `| Option | Description |`,
+            `| --- | --- |`,
+            `| \`-f,--force\` | Ignore the \`lockfile\` \\| cache |`,
+            `| \`--registry #0\` | (env: \`MYTOOL_REGISTRY\`) |`,
+            ``,
+            `## Details`,
+            ``,
+            `This command installs *packages*.`,
+            ``,
+            `- Already installed packages are skipped`,
+            `- Peer dependencies are ignored`,
+            ``,
+            `## Examples`,
+            ``,
+            `Install lodash in the frontend`,
+            ``,
+            `\`\`\``,
+            `$ mytool workspace install frontend lodash`,
+            `\`\`\``,
+            ``,
+            `## See also`,
+            ``,
+            `- [\`mytool workspace list\`](../workspace-list.md)`,
+            ``,
+        ].join(`\n`));
+    });
+
+    it(`should link the commands sharing a path prefix`, async () => {
+        const [, , list, run] = makeCli().markdown();
+
+        expect(list.content).to.contain(`## See also\n\n- [\`mytool workspace install\`](workspace-commands/workspace-install.md)\n`);
+        expect(run.content).not.to.contain(`See also`);
+    });
+
+    it(`should expose the structured options and positionals in the definitions`, async () => {
+        const [definition] = makeCli().definitions();
+
+        expect(definition.options.map(({names, arity}) => ({names, arity}))).to.deep.equal([
+            {names: [`-f`, `--force`], arity: 0},
+            {names: [`--registry`], arity: 1},
+        ]);
+
+        expect(definition.positionals).to.deep.equal([
+            {name: `workspace`, kind: `required`, description: `The target workspace`},
+            {name: `packages`, kind: `rest`, description: undefined, required: 1},
+        ]);
+    });
+
+    it(`should write the pages through the Markdown entry`, async () => {
+        const output = mkdtempSync(join(tmpdir(), `clipanion-`));
+
+        await runCli(makeCli(), [`--clipanion=markdown`, `--output`, output]);
+
+        expect(readFileSync(join(output, `workspace-commands`, `workspace-install.md`), `utf8`)).to.equal(makeCli().markdown()[1].content);
+        expect(readFileSync(join(output, `index.md`), `utf8`)).to.equal(makeCli().markdown()[0].content);
+    });
+});
+
+describe(`Schema`, () => {
+    class InstallCommand extends Command {
+        force = Command.Boolean(`-f,--force`, false, {description: `Ignore the lockfile`});
+        verbose = Command.Counter(`-v,--verbose`, {hidden: true});
+        registry = Command.String(`--registry`, `https://registry.example`, {env: `MYTOOL_REGISTRY`});
+        jobs = Command.String(`-j,--jobs`, {validator: t.isOptional(t.isNumber())});
+        mirrors = Command.Array(`--mirror`, {arity: 2});
+        workspace = Command.String({required: false});
+        packages = Command.Rest({required: 1});
+
+        static paths = [[`install`], [`i`]];
+
+        static usage = Command.Usage({
+            category: `Dependencies`,
+            description: `install packages`,
+        });
+
+        async execute() {}
+    }
+
+    class ExecCommand extends Command {
+        script = Command.String({validator: t.isString()});
+        args = Command.Proxy();
+
+        static paths = [[`exec`]];
+        async execute() {}
+    }
+
+    const getSchema = (cli: Cli<any>) => JSON.parse(JSON.stringify(cli.schema()));
+
+    it(`should describe the options of the commands`, async () => {
+        const cli = Cli.from([InstallCommand], {binaryName: `mytool`, binaryVersion: `1.0.0`});
+
+        expect(getSchema(cli)).to.deep.equal({
+            binaryName: `mytool`,
+            binaryVersion: `1.0.0`,
+            commands: [{
+                paths: [[`install`], [`i`]],
+                category: `Dependencies`,
+                description: `install packages`,
+                options: [
+                    {key: `force`, names: [`-f`, `--force`], arity: 0, hidden: false, required: false, negatable: true, description: `Ignore the lockfile`, type: `boolean`, default: false},
+                    {key: `verbose`, names: [`-v`, `--verbose`], arity: 0, hidden: true, required: false, negatable: false, type: `number`},
+                    {key: `registry`, names: [`--registry`], arity: 1, hidden: false, required: false, negatable: false, env: `MYTOOL_REGISTRY`, type: `string`, default: `https://registry.example`, validated: false},
+                    {key: `jobs`, names: [`-j`, `--jobs`], arity: 1, hidden: false, required: false, negatable: false, type: `string`, validated: true},
+                    {key: `mirrors`, names: [`--mirror`], arity: 2, hidden: false, required: false, negatable: false, type: `[string, string][]`},
+                ],
+                positionals: [
+                    {key: `workspace`, name: `workspace`, kind: `optional`, type: `string`, validated: false},
+                    {key: `packages`, name: `packages`, kind: `rest`, required: 1, type: `string[]`},
+                ],
+            }],
+        });
+    });
+
+    it(`should describe the positionals of proxy commands`, async () => {
+        const cli = Cli.from([ExecCommand]);
+
+        expect(getSchema(cli).commands[0].positionals).to.deep.equal([
+            {key: `script`, name: `script`, kind: `required`, type: `string`, validated: true},
+            {key: `args`, name: `arg`, kind: `proxy`, required: 0, type: `string[]`},
+        ]);
+    });
+
+    it(`should only describe the manifest of lazy commands until they're loaded`, async () => {
+        const cli = new Cli();
+        cli.registerLazy({...JSON.parse(JSON.stringify(Cli.getManifest(InstallCommand))), load: async () => InstallCommand});
+
+        const [before] = getSchema(cli).commands;
+        expect(before.options[0]).to.deep.equal({names: [`-f`, `--force`], arity: 0, hidden: false, required: false, negatable: true, description: `Ignore the lockfile`});
+
+        await runCli(cli, [`install`, `foo`, `bar`]);
+
+        const [after] = getSchema(cli).commands;
+        expect(after.options[0]).to.deep.equal({key: `force`, names: [`-f`, `--force`], arity: 0, hidden: false, required: false, negatable: true, description: `Ignore the lockfile`, type: `boolean`, default: false});
+        expect(after.positionals[1]).to.deep.equal({key: `packages`, name: `packages`, kind: `rest`, required: 1, type: `string[]`});
+    });
+
+    it(`should print the schema through the Schema entry`, async () => {
+        const cli = Cli.from([InstallCommand, Command.Entries.Schema], {binaryName: `mytool`});
+
+        expect(JSON.parse(await runCli(cli, [`--clipanion=schema`]))).to.deep.equal(getSchema(cli));
+    });
+});
+
+describe(`Required options`, () => {
+    it(`should require the options declared as required`, async () => {
+        class CommandA extends Command {
+            registry = Command.String(`-r,--registry`, {required: true, env: `MYTOOL_REGISTRY`});
+            tags = Command.Array(`--tag`, {required: true});
+
+            async execute() {}
+        }
+
+        const cli = Cli.from([CommandA]);
+
+        expect(cli.process([`-r`, `https://example.org`, `--tag`, `latest`])).to.contain({registry: `https://example.org`});
+        expect(cli.process([`--tag`, `latest`], {env: {MYTOOL_REGISTRY: `https://example.org`}})).to.contain({registry: `https://example.org`});
+
+        expect(() => cli.process([`--tag`, `latest`])).to.throw(`Missing required option -r,--registry`);
+        expect(() => cli.process([`-r`, `https://example.org`])).to.throw(`Missing required option --tag`);
+    });
+
+    it(`should accept the required options set in the configuration sources`, async () => {
+        class CommandA extends Command {
+            registry = Command.String(`--registry`, {required: true});
+            tags = Command.Array(`--tag`, {required: true});
+
+            async execute() {}
+        }
+
+        const source: ConfigurationSource = {
+            load: () => ({origin: `source`, values: {registry: `https://config.org`, tags: [`latest`]}}),
+        };
+
+        const cli = Cli.from([CommandA], {configuration: [source]});
+
+        expect(cli.process([])).to.contain({registry: `https://config.org`});
+        expect(cli.process([])).to.have.deep.property(`tags`, [`latest`]);
+
+        expect(() => Cli.from([CommandA]).process([`--tag`, `latest`])).to.throw(`Missing required option --registry`);
+    });
+
+    it(`should report the missing required options as usage errors`, async () => {
+        class CommandA extends Command {
+            registry = Command.String(`--registry`, {required: true});
+
+            static paths = [[`publish`]];
+            async execute() {}
+        }
+
+        const cli = Cli.from([CommandA], {binaryName: `mytool`, enableColors: false});
+
+        expect(await runCli(cli, [`publish`]).catch(error => error.message)).to.match(/^Usage Error: Missing required option --registry\n/);
+    });
+
+    it(`should type the required options as always set`, async () => {
+        class CommandA extends Command {
+            registry = Command.String(`--registry`, {required: true});
+            jobs = Command.String(`--jobs`, {required: true, validator: t.isNumber()});
+            tags = Command.Array(`--tag`, {required: true});
+
+            async execute() {
+                const registry: string = this.registry;
+                const jobs: number = this.jobs;
+                const tags: Array<string> = this.tags;
+
+                this.context.stdout.write(`${registry} ${jobs + 1} ${tags.join(`,`)}\n`);
+            }
+        }
+
+        const cli = Cli.from([CommandA]);
+
+        expect(await runCli(cli, [`--registry`, `https://example.org`, `--jobs`, `3`, `--tag`, `a`, `--tag`, `b`])).to.equal(`https://example.org 4 a,b\n`);
+    });
+
+    it(`should reject the required options tolerating booleans`, async () => {
+        class CommandA extends Command {
+            // @ts-expect-error
+            inspect = Command.String(`--inspect`, {required: true, tolerateBoolean: true});
+
+            async execute() {}
+        }
+
+        expect(CommandA).to.be.a(`function`);
+    });
+
+    it(`should print the required options in the usage line`, async () => {
+        class CommandA extends Command {
+            registry = Command.String(`--registry`, {required: true, description: `The registry to use`});
+            scope = Command.String(`--scope`, {required: true});
+            verbose = Command.Boolean(`--verbose`);
+
+            static usage = Command.Usage({});
+
+            static paths = [[`publish`]];
+            async execute() {}
+        }
+
+        const cli = Cli.from([CommandA], {enableColors: false});
+
+        expect(cli.usage(CommandA)).to.equal(`$ ... publish <--registry #0> <--scope #0> [--verbose]\n`);
+        expect(cli.usage(CommandA, {detailed: true})).to.equal(`$ ... publish <--registry #0> <--scope #0> [--verbose]\n\n\u001b[1mOptions:\u001b[22m\n\n  --registry #0    The registry to use\n`);
+    });
+
+});
+
+describe(`Breaking changes`, () => {
+    const getSchema = (commandClasses: CommandClass[]) => JSON.parse(JSON.stringify(Cli.from(commandClasses, {binaryName: `mytool`}).schema()));
+
+    class InstallCommand extends Command {
+        force = Command.Boolean(`-f,--force`);
+        mirrors = Command.Array(`--mirror`);
+        workspace = Command.String({required: false});
+        packages = Command.Rest();
+
+        static paths = [[`install`], [`i`]];
+        async execute() {}
+    }
+
+    it(`shouldn't report anything when the commands didn't change`, async () => {
+        expect(findBreakingChanges(getSchema([InstallCommand]), getSchema([InstallCommand]))).to.deep.equal([]);
+    });
+
+    it(`shouldn't report backward-compatible changes`, async () => {
+        class NextInstallCommand extends Command {
+            force = Command.Boolean(`-f,--force,--yes`);
+            mirrors = Command.Array(`--mirror`);
+            registry = Command.String(`--registry`);
+            workspace = Command.String({required: false});
+            packages = Command.Rest();
+
+            static paths = [[`install`], [`i`], [`add`]];
+            async execute() {}
+        }
+
+        class RunCommand extends Command {
+            static paths = [[`run`]];
+            async execute() {}
+        }
+
+        expect(findBreakingChanges(getSchema([InstallCommand]), getSchema([NextInstallCommand, RunCommand]))).to.deep.equal([]);
+    });
+
+    it(`should report the removed commands and paths`, async () => {
+        class RunCommand extends Command {
+            static paths = [[`run`]];
+            async execute() {}
+        }
+
+        class NextInstallCommand extends InstallCommand {
+            static paths = [[`install`]];
+        }
+
+        expect(findBreakingChanges(getSchema([InstallCommand, RunCommand]), getSchema([NextInstallCommand]))).to.deep.equal([
+            {kind: `path-removed`, path: [`install`], message: `The "mytool i" path of "mytool install" has been removed`},
+            {kind: `command-removed`, path: [`run`], message: `The "mytool run" command has been removed`},
+        ]);
+    });
+
+    it(`should report the removed, renamed, and modified options`, async () => {
+        class NextInstallCommand extends Command {
+            force = Command.String(`-f`, {required: true});
+            mirrors = Command.Array(`--mirrors`);
+            workspace = Command.String({required: false});
+            packages = Command.Rest();
+
+            static paths = [[`install`], [`i`]];
+            async execute() {}
+        }
+
+        class OtherInstallCommand extends Command {
+            workspace = Command.String({required: false});
+            packages = Command.Rest();
+            token = Command.String(`--token`, {required: true});
+
+            static paths = [[`install`], [`i`]];
+            async execute() {}
+        }
+
+        expect(findBreakingChanges(getSchema([InstallCommand]), getSchema([NextInstallCommand]))).to.deep.equal([
+            {kind: `option-renamed`, path: [`install`], message: `The -f,--force option of "mytool install" doesn't accept --force, --no-force anymore`},
+            {kind: `option-arity`, path: [`install`], message: `The arity of the -f,--force option of "mytool install" changed from 0 to 1`},
+            {kind: `option-required`, path: [`install`], message: `The -f,--force option of "mytool install" is now required`},
+            {kind: `option-renamed`, path: [`install`], message: `The --mirror option of "mytool install" has been renamed into --mirrors`},
+        ]);
+
+        expect(findBreakingChanges(getSchema([InstallCommand]), getSchema([OtherInstallCommand]))).to.deep.equal([
+            {kind: `option-removed`, path: [`install`], message: `The -f,--force option of "mytool install" has been removed`},
+            {kind: `option-removed`, path: [`install`], message: `The --mirror option of "mytool install" has been removed`},
+            {kind: `option-required`, path: [`install`], message: `The new --token option of "mytool install" is required`},
+        ]);
+    });
+
+    it(`should report the changes of the positional arguments`, async () => {
+        class NextInstallCommand extends Command {
+            force = Command.Boolean(`-f,--force`);
+            mirrors = Command.Array(`--mirror`);
+            packages = Command.String();
+            workspace = Command.String();
+
+            static paths = [[`install`], [`i`]];
+            async execute() {}
+        }
+
+        class OtherInstallCommand extends Command {
+            force = Command.Boolean(`-f,--force`);
+            mirrors = Command.Array(`--mirror`);
+            packages = Command.Rest({required: 2});
+
+            static paths = [[`install`], [`i`]];
+            async execute() {}
+        }
+
+        expect(findBreakingChanges(getSchema([InstallCommand]), getSchema([NextInstallCommand]))).to.deep.equal([
+            {kind: `positional-arity`, path: [`install`], message: `The "packages" positional argument of "mytool install" doesn't accept multiple values anymore`},
+            {kind: `positional-required`, path: [`install`], message: `The "packages" positional argument of "mytool install" is now required`},
+            {kind: `positional-required`, path: [`install`], message: `The "workspace" positional argument of "mytool install" is now required`},
+            {kind: `positionals-reordered`, path: [`install`], message: `The positional arguments of "mytool install" have been reordered (from workspace, packages to packages, workspace)`},
+        ]);
+
+        expect(findBreakingChanges(getSchema([InstallCommand]), getSchema([OtherInstallCommand]))).to.deep.equal([
+            {kind: `positional-removed`, path: [`install`], message: `The "workspace" positional argument of "mytool install" has been removed`},
+            {kind: `positional-required`, path: [`install`], message: `The "packages" positional argument of "mytool install" now requires at least 2 values`},
+        ]);
+    });
+
+    it(`should compare lazy commands with their loaded counterparts`, async () => {
+        const cli = new Cli({binaryName: `mytool`});
+        cli.registerLazy({...Cli.getManifest(InstallCommand), load: async () => InstallCommand});
+
+        expect(findBreakingChanges(cli.schema(), getSchema([InstallCommand]))).to.deep.equal([]);
+        expect(findBreakingChanges(getSchema([InstallCommand]), cli.schema())).to.deep.equal([]);
+    });
+});
+
+describe(`Lint`, () => {
+    it(`shouldn't report anything for unambiguous commands`, async () => {
+        class InstallCommand extends Command {
+            force = Command.Boolean(`-f,--force`);
+            static paths = [[`install`]];
+            async execute() {}
+        }
+
+        class AddCommand extends Command {
+            packages = Command.Rest({required: 1});
+            static paths = [[`install`], [`add`]];
+            async execute() {}
+        }
+
+        class RemoveCommand extends Command {
+            name = Command.String();
+            static paths = [[`remove`]];
+            async execute() {}
+        }
+
+        expect(Cli.from([InstallCommand, AddCommand, RemoveCommand, Command.Entries.Help]).lint()).to.deep.equal([]);
+    });
+
+    it(`should report the commands sharing the same path and arity`, async () => {
+        class CommandA extends Command {
+            name = Command.String();
+            static paths = [[`remove`]];
+            async execute() {}
+        }
+
+        class CommandB extends Command {
+            other = Command.String();
+            static paths = [[`remove`], [`rm`]];
+            async execute() {}
+        }
+
+        expect(Cli.from([CommandA, CommandB], {binaryName: `mytool`}).lint()).to.deep.equal([{
+            code: `duplicate-path`,
+            paths: [[`remove`], [`remove`]],
+            message: `The "mytool remove" path is declared by multiple commands accepting the same positional arguments`,
+        }]);
+    });
+
+    it(`should report the optional positionals making commands indistinguishable`, async () => {
+        class CommandA extends Command {
+            name = Command.String();
+            static paths = [[`remove`]];
+            async execute() {}
+        }
+
+        class CommandB extends Command {
+            name = Command.String();
+            other = Command.String({required: false});
+            static paths = [[`remove`]];
+            async execute() {}
+        }
+
+        class CommandC extends Command {
+            names = Command.Rest();
+            static paths = [[`remove`]];
+            async execute() {}
+        }
+
+        expect(Cli.from([CommandA, CommandB, CommandC], {binaryName: `mytool`}).lint()).to.deep.equal([{
+            code: `ambiguous-positionals`,
+            paths: [[`remove`], [`remove`]],
+            message: `The commands declared at "mytool remove" can't be told apart when given 1 positional argument`,
+        }]);
+    });
+
+    it(`should report the conflicting options of a command`, async () => {
+        class CommandA extends Command {
+            force = Command.Boolean(`-f,--force`);
+            forceAlias = Command.Boolean(`--force`);
+            all = Command.Boolean(`-a`);
+            batch = Command.Boolean(`-af`);
+            cache = Command.Boolean(`--cache`);
+            noCache = Command.Boolean(`--no-cache`);
+            color = Command.String(`--color`);
+            noColor = Command.Boolean(`--no-color`);
+
+            static paths = [[`install`]];
+            async execute() {}
+        }
+
+        expect(Cli.from([CommandA], {binaryName: `mytool`}).lint()).to.deep.equal([
+            {code: `duplicate-option`, paths: [[`install`]], message: `The --force option of "mytool install" is declared multiple times`},
+            {code: `batch-collision`, paths: [[`install`]], message: `The -af option of "mytool install" can't be told apart from the batch of -a, -f`},
+            {code: `negation-collision`, paths: [[`install`]], message: `The --no-cache option of "mytool install" collides with the negation of --cache`},
+        ]);
+    });
+
+    it(`should prevent registering conflicting commands in strict mode`, async () => {
+        class CommandA extends Command {
+            name = Command.String();
+            static paths = [[`remove`]];
+            async execute() {}
+        }
+
+        class CommandB extends Command {
+            other = Command.String();
+            static paths = [[`remove`]];
+            async execute() {}
+        }
+
+        const cli = new Cli({binaryName: `mytool`, enableStrictRegistration: true});
+        cli.register(CommandA);
+
+        expect(() => cli.register(CommandB)).to.throw(`The command can't be registered:\n\n- The "mytool remove" path is declared by multiple commands`);
+        expect(() => cli.registerLazy({...Cli.getManifest(CommandB), load: async () => CommandB})).to.throw(`The "mytool remove" path is declared by multiple commands`);
+
+        expect(cli.lint()).to.deep.equal([]);
+        expect(await runCli(cli, [`remove`, `foo`])).to.equal(``);
+    });
+});
+
+describe(`Explain`, () => {
+    class InstallCommand extends Command {
+        force = Command.Boolean(`-f,--force`);
+        static paths = [[`install`]];
+        async execute() {}
+    }
+
+    class AddCommand extends Command {
+        packages = Command.Rest({required: 1});
+        static paths = [[`install`]];
+        async execute() {}
+    }
+
+    class PluginCommand extends Command {
+        args = Command.Rest();
+        static paths = [[`plugin`]];
+        async execute() {}
+    }
+
+    class PluginListCommand extends Command {
+        static paths = [[`plugin`, `list`]];
+        async execute() {}
+    }
+
+    const makeCli = () => Cli.from([InstallCommand, AddCommand, PluginCommand, PluginListCommand], {binaryName: `mytool`});
+
+    it(`should list the candidates alive after each argument`, async () => {
+        const explanation = makeCli().explain([`install`, `--force`]);
+
+        expect(explanation.steps.map(({argument}) => argument)).to.deep.equal([null, `install`, `--force`, null]);
+        expect(explanation.steps[1].states.map(({usage}) => usage)).to.deep.equal([
+            `mytool install [-f,--force]`,
+            `mytool install <packages> ...`,
+        ]);
+
+        expect(explanation.steps[2].states).to.deep.equal([{
+            usage: `mytool install [-f,--force]`,
+            help: false,
+            path: [`install`],
+            positionals: [],
+            options: [`--force`],
+            error: null,
+        }, {
+            usage: `mytool install <packages> ...`,
+            help: false,
+            path: [`install`],
+            positionals: [],
+            options: [],
+            error: `Unsupported option name ("--force").`,
+        }]);
+    });
+
+    it(`should report the candidates pruned by a longer path`, async () => {
+        const explanation = makeCli().explain([`plugin`, `list`]);
+
+        expect(explanation.steps[2].states.map(({usage}) => usage)).to.deep.equal([`mytool plugin list`]);
+        expect(explanation.steps[2].trimmed).to.deep.equal([{
+            usage: `mytool plugin ...`,
+            help: false,
+            path: [`plugin`],
+            positionals: [`list`],
+            options: [],
+            error: null,
+        }, {
+            usage: `mytool plugin ...`,
+            help: false,
+            path: [`plugin`],
+            positionals: [],
+            options: [],
+            error: `Extraneous positional argument ("list").`,
+        }]);
+    });
+
+    it(`should explain how the selected command got picked`, async () => {
+        const explanation = makeCli().explain([`install`, `--force`]);
+
+        expect(explanation.selection.map(({criterion, reason}) => ({criterion, reason}))).to.deep.equal([
+            {criterion: `path`, reason: `Kept the candidates with the longest path (1 segment)`},
+            {criterion: `positionals`, reason: `Kept the candidates consuming the most required positional arguments and options`},
+            {criterion: `help`, reason: `Merged the help requests into a single candidate`},
+        ]);
+
+        expect(explanation.selected).to.contain({usage: `mytool install [-f,--force]`, help: false});
+        expect(explanation.error).to.equal(null);
+    });
+
+    it(`should report the help requests`, async () => {
+        const explanation = makeCli().explain([`install`, `-h`]);
+
+        expect(explanation.selected).to.contain({usage: null, help: true});
+
+        const helpSelection = explanation.selection.find(({criterion}) => criterion === `help`)!;
+        expect(helpSelection.kept).to.have.length(1);
+        expect(helpSelection.kept[0]).to.contain({usage: null, help: true});
+        expect(helpSelection.discarded).to.deep.equal([]);
+    });
+
+    it(`should return the errors instead of throwing them`, async () => {
+        const explanation = makeCli().explain([`instal`]);
+
+        expect(explanation.selected).to.equal(null);
+        expect(explanation.error).to.contain({name: `UnknownSyntaxError`});
+        expect(explanation.steps.map(({argument}) => argument)).to.deep.equal([null, `instal`]);
+    });
+
+    it(`should print the explanation through the explain entry`, async () => {
+        const cli = makeCli();
+        cli.register(Command.Entries.Explain);
+
+        const output = await runCli(cli, [`--clipanion=explain`, `install`, `--force`]);
+
+        expect(JSON.parse(output)).to.deep.equal(JSON.parse(JSON.stringify(cli.explain([`install`, `--force`]))));
+    });
+});
+
+describe(`Signals`, () => {
+    class WaitCommand extends Command {
+        static paths = [[`wait`]];
+
+        async execute() {
+            while (!this.context.signal?.aborted)
+                await new Promise(resolve => setTimeout(resolve, 1));
+
+            this.context.stdout.write(`Cleaned up\n`);
+            throw new Error(`Interrupted`);
+        }
+    }
+
+    const makeContext = () => {
+        const stream = new PassThrough();
+        const output = getStream(stream);
+
+        return {stream, output, context: {stdin: process.stdin, stdout: stream, stderr: stream}};
+    };
+
+    it(`should expose the signal to the commands`, async () => {
+        const controller = new AbortController();
+        const {stream, output, context} = makeContext();
+
+        const exitCode = Cli.from([WaitCommand]).run([`wait`], {...context, signal: controller.signal});
+        controller.abort();
+
+        expect(await exitCode).to.equal(130);
+
+        stream.end();
+        expect(await output).to.equal(`Cleaned up\n`);
+    });
+
+    it(`should map the signal aborting the command to the exit code`, async () => {
+        const controller = new AbortController();
+        const {context} = makeContext();
+
+        const exitCode = Cli.from([WaitCommand]).run([`wait`], {...context, signal: controller.signal});
+        controller.abort(`SIGTERM`);
+
+        expect(await exitCode).to.equal(143);
+    });
+
+    it(`should report the errors of the commands that haven't been aborted`, async () => {
+        class FailCommand extends Command {
+            async execute() {
+                throw new Error(`Something went wrong`);
+            }
+        }
+
+        const controller = new AbortController();
+        const {context} = makeContext();
+
+        expect(await Cli.from([FailCommand]).run([], {...context, signal: controller.signal})).to.equal(1);
+    });
+
+    it(`should abort the signal when runExit receives a SIGINT`, async () => {
+        const {context} = makeContext();
+        const previousExitCode = process.exitCode;
+
+        try {
+            const promise = Cli.from([WaitCommand]).runExit([`wait`], context);
+            process.emit(`SIGINT`, `SIGINT`);
+            await promise;
+
+            expect(process.exitCode).to.equal(130);
+            expect(process.listenerCount(`SIGINT`)).to.equal(0);
+        } finally {
+            process.exitCode = previousExitCode;
+        }
+    });
+
+    it(`should remove the signal listeners once runExit is done`, async () => {
+        class NoopCommand extends Command {
+            async execute() {
+                this.context.stdout.write(`${process.listenerCount(`SIGINT`)} ${process.listenerCount(`SIGTERM`)}\n`);
+            }
+        }
+
+        const {stream, output, context} = makeContext();
+        const previousExitCode = process.exitCode;
+
+        const sigintCount = process.listenerCount(`SIGINT`);
+        const sigtermCount = process.listenerCount(`SIGTERM`);
+
+        try {
+            await Cli.from([NoopCommand]).runExit([], context);
+
+            expect(process.exitCode).to.equal(0);
+            expect(process.listenerCount(`SIGINT`)).to.equal(sigintCount);
+            expect(process.listenerCount(`SIGTERM`)).to.equal(sigtermCount);
+        } finally {
+            process.exitCode = previousExitCode;
+        }
+
+        stream.end();
+        expect(await output).to.equal(`${sigintCount + 1} ${sigtermCount + 1}\n`);
+    });
+
+    it(`should leave the signals alone when AbortController isn't available`, async () => {
+        class NoopCommand extends Command {
+            async execute() {
+                this.context.stdout.write(`${typeof this.context.signal} ${process.listenerCount(`SIGINT`)}\n`);
+            }
+        }
+
+        const {stream, output, context} = makeContext();
+        const previousExitCode = process.exitCode;
+        const previousAbortController = globalThis.AbortController;
+
+        const sigintCount = process.listenerCount(`SIGINT`);
+
+        // @ts-expect-error
+        delete globalThis.AbortController;
+
+        try {
+            await Cli.from([NoopCommand]).runExit([], context);
+            expect(process.exitCode).to.equal(0);
+        } finally {
+            globalThis.AbortController = previousAbortController;
+            process.exitCode = previousExitCode;
+        }
+
+        stream.end();
+        expect(await output).to.equal(`undefined ${sigintCount}\n`);
+    });
+
+    it(`should exit right away when runExit receives a second SIGINT`, async () => {
+        class StubbornCommand extends Command {
+            async execute() {
+                await new Promise(resolve => setTimeout(resolve, 10));
+            }
+        }
+
+        const {context} = makeContext();
+        const previousExit = process.exit;
+        const previousExitCode = process.exitCode;
+
+        const exitCodes: Array<number | undefined> = [];
+        process.exit = ((code?: number) => { exitCodes.push(code); }) as typeof process.exit;
+
+        try {
+            const promise = Cli.from([StubbornCommand]).runExit([], context);
+            process.emit(`SIGTERM`, `SIGTERM`);
+            process.emit(`SIGTERM`, `SIGTERM`);
+            process.emit(`SIGINT`, `SIGINT`);
+            await promise;
+
+            expect(exitCodes).to.deep.equal([130]);
+        } finally {
+            process.exit = previousExit;
+            process.exitCode = previousExitCode;
+        }
+    });
+});
+
+describe(`Exit codes`, () => {
+    class OperationError extends Error {}
+    class NetworkError extends OperationError {}
+
+    class InstallCommand extends Command {
+        name = Command.String();
+        static paths = [[`install`]];
+
+        async execute() {
+            if (this.name === `usage`)
+                throw new UsageError(`Invalid name`);
+            if (this.name === `network`)
+                throw new NetworkError(`Network unreachable`);
+            if (this.name === `custom`)
+                throw Object.assign(new UsageError(`Invalid configuration`), {clipanion: {type: `usage`, exitCode: 78}});
+            if (this.name === `null`)
+                throw null;
+
+            throw new Error(`Something went wrong`);
+        }
+    }
+
+    const run = (cli: Cli, args: string[]) => cli.run(args, {
+        stdin: process.stdin,
+        stdout: new PassThrough(),
+        stderr: new PassThrough(),
+    });
+
+    const makeCli = (exitCodes?: CliOptions['exitCodes']) => Cli.from([InstallCommand], {exitCodes});
+
+    it(`should return 1 for all errors by default`, async () => {
+        expect(await run(makeCli(), [`install`, `usage`])).to.equal(1);
+        expect(await run(makeCli(), [`install`, `network`])).to.equal(1);
+        expect(await run(makeCli(), [`instal`])).to.equal(1);
+        expect(await run(makeCli(), [`install`, `null`])).to.equal(1);
+    });
+
+    it(`should map the error classes to exit codes`, async () => {
+        const cli = makeCli([
+            [UsageError, 64],
+            [UnknownSyntaxError, 2],
+            [OperationError, 70],
+        ]);
+
+        expect(await run(cli, [`install`, `usage`])).to.equal(64);
+        expect(await run(cli, [`instal`])).to.equal(2);
+        expect(await run(cli, [`install`, `network`])).to.equal(70);
+        expect(await run(cli, [`install`, `other`])).to.equal(1);
+    });
+
+    it(`should map the usage errors thrown while parsing`, async () => {
+        class CountCommand extends Command {
+            count = Command.String(`--count`, {validator: t.isNumber()});
+            async execute() {}
+        }
+
+        const cli = Cli.from([CountCommand], {exitCodes: [[UsageError, 64]]});
+
+        expect(await run(cli, [`--count`, `foo`])).to.equal(64);
+    });
+
+    it(`should favor the exit code set in the error metadata`, async () => {
+        expect(await run(makeCli([[UsageError, 64]]), [`install`, `custom`])).to.equal(78);
+    });
+
+    it(`should return the exit code returned by catch`, async () => {
+        class CatchCommand extends InstallCommand {
+            async catch(error: any) {
+                if (error instanceof UsageError)
+                    return 64;
+
+                return undefined;
+            }
+        }
+
+        const cli = Cli.from([CatchCommand]);
+
+        expect(await run(cli, [`install`, `usage`])).to.equal(64);
+        expect(await run(cli, [`install`, `other`])).to.equal(0);
+    });
+});
+
+describe(`JSON errors`, () => {
+    class InstallCommand extends Command {
+        count = Command.String(`--count`, {validator: t.isNumber()});
+        name = Command.String({required: false});
+        static paths = [[`install`]];
+        async execute() {}
+    }
+
+    class AddCommand extends Command {
+        packages = Command.Rest({required: 1});
+        static paths = [[`install`]];
+        async execute() {}
+    }
+
+    class FailCommand extends Command {
+        static paths = [[`fail`]];
+
+        async execute() {
+            throw new Error(`Something went wrong`);
+        }
+    }
+
+    const makeCli = (opts: Partial<CliOptions> = {}) => Cli.from([InstallCommand, AddCommand, FailCommand], {binaryName: `mytool`, enableColors: false, ...opts});
+
+    const run = async (cli: Cli, args: string[]) => {
+        const {exitCode, stdout, stderr} = await runTestCli(cli, args);
+
+        expect(stdout).to.equal(``);
+        return {exitCode, error: JSON.parse(stderr)};
+    };
+
+    it(`should print the parse errors as JSON`, async () => {
+        const {exitCode, error} = await run(makeCli(), [`--clipanion=json-errors`, `instal`]);
+
+        expect(exitCode).to.equal(1);
+        expect(error).to.deep.equal({
+            name: `UnknownSyntaxError`,
+            message: error.message,
+            exitCode: 1,
+            tokenIndex: 0,
+            candidates: [
+                {usage: `mytool install [--count #0] [name]`, reason: null},
+                {usage: `mytool install <packages> ...`, reason: null},
+                {usage: `mytool fail`, reason: null},
+            ],
+            suggestions: [`install`],
+        });
+    });
+
+    it(`should report the index of the offending argument`, async () => {
+        const {error} = await run(makeCli(), [`--clipanion=json-errors`, `install`, `foo`, `--bar`]);
+
+        expect(error).to.contain({name: `UnknownSyntaxError`, tokenIndex: 2});
+        expect(error.candidates.map(({reason}: {reason: string | null}) => reason)).to.include(`Unsupported option name ("--bar").`);
+
+        expect((await run(makeCli(), [`--clipanion=json-errors`, `install`, `--count`])).error).to.contain({tokenIndex: null});
+    });
+
+    it(`should print the ambiguity errors as JSON`, async () => {
+        class OtherCommand extends Command {
+            static paths = [[`install`]];
+            async execute() {}
+        }
+
+        const {error} = await run(Cli.from([OtherCommand, OtherCommand], {binaryName: `mytool`}), [`--clipanion=json-errors`, `install`]);
+
+        expect(error).to.contain({name: `AmbiguousSyntaxError`, tokenIndex: null});
+        expect(error.candidates).to.deep.equal([
+            {usage: `mytool install`, reason: null},
+            {usage: `mytool install`, reason: null},
+        ]);
+    });
+
+    it(`should print the validation and runtime errors as JSON`, async () => {
+        expect((await run(makeCli(), [`--clipanion=json-errors`, `install`, `--count`, `foo`])).error).to.deep.equal({
+            name: `UsageError`,
+            message: `Invalid option validation for count: expected a number (got "foo")`,
+            exitCode: 1,
+            tokenIndex: null,
+            candidates: [],
+            suggestions: [],
+        });
+
+        expect((await run(makeCli(), [`--clipanion=json-errors`, `fail`])).error).to.contain({
+            name: `Error`,
+            message: `Something went wrong`,
+        });
+    });
+
+    it(`should include the mapped exit codes`, async () => {
+        const {exitCode, error} = await run(makeCli({enableJsonErrors: true, exitCodes: [[UsageError, 64]]}), [`install`, `--count`, `foo`]);
+
+        expect(exitCode).to.equal(64);
+        expect(error).to.contain({exitCode: 64});
+    });
+
+    it(`should keep printing the errors as text by default`, async () => {
+        const {exitCode, stdout, stderr} = await runTestCli(makeCli(), [`fail`]);
+
+        expect(exitCode).to.equal(1);
+        expect(stdout).to.equal(``);
+        expect(stderr).to.contain(`Internal Error: Something went wrong`);
+    });
+});
+
+describe(`Output streams`, () => {
+    class InstallCommand extends Command {
+        count = Command.String(`--count`, {validator: t.isNumber()});
+        static paths = [[`install`]];
+
+        async execute() {
+            this.context.stdout.write(`Installed\n`);
+        }
+    }
+
+    class FailCommand extends Command {
+        static paths = [[`fail`]];
+
+        async execute() {
+            throw new Error(`Something went wrong`);
+        }
+    }
+
+    const makeCli = (opts: Partial<CliOptions> = {}) => Cli.from([InstallCommand, FailCommand], {binaryName: `mytool`, enableColors: false, ...opts});
+
+    it(`should print the errors on stderr`, async () => {
+        const parseError = await runTestCli(makeCli(), [`instal`]);
+        expect(parseError.stdout).to.equal(``);
+        expect(parseError.stderr).to.contain(`Unknown Syntax Error: Command not found`);
+
+        const executionError = await runTestCli(makeCli(), [`fail`]);
+        expect(executionError.stdout).to.equal(``);
+        expect(executionError.stderr).to.contain(`Internal Error: Something went wrong`);
+    });
+
+    it(`should print the usage of the usage errors on stderr`, async () => {
+        const {stdout, stderr} = await runTestCli(makeCli(), [`install`, `--count`, `foo`]);
+
+        expect(stdout).to.equal(``);
+        expect(stderr).to.contain(`Usage Error: Invalid option validation for count: expected a number (got "foo")\n\n$ mytool`);
+    });
+
+    it(`should print the help requests on stdout`, async () => {
+        const {stdout, stderr} = await runTestCli(makeCli(), [`install`, `-h`]);
+
+        expect(stdout).to.contain(`$ mytool install [--count #0]`);
+        expect(stderr).to.equal(``);
+    });
+
+    it(`should print the errors on stdout in legacy mode`, async () => {
+        const {stdout, stderr} = await runTestCli(makeCli({enableStdoutErrors: true}), [`fail`]);
+
+        expect(stdout).to.contain(`Internal Error: Something went wrong`);
+        expect(stderr).to.equal(``);
+    });
+});
+
+describe(`Choices`, () => {
+    class ExportCommand extends Command {
+        format = Command.String(`--format`, {choices: [`json`, `table`, `yaml`], description: `The output format`});
+        level = Command.String(`--level`, `info`, {choices: [`info`, `debug`], env: `EXPORT_LEVEL`});
+
+        target = Command.String({choices: [`users`, `groups`]});
+
+        static paths = [[`export`]];
+
+        async execute() {
+            log(this, [`format`, `level`, `target`]);
+        }
+    }
+
+    const makeCli = () => Cli.from([ExportCommand], {binaryName: `mytool`, enableColors: false});
+
+    it(`should narrow the types to the choices`, async () => {
+        const command = new ExportCommand();
+
+        const format: `json` | `table` | `yaml` | undefined = command.format;
+        const level: `info` | `debug` = command.level;
+        const target: `users` | `groups` = command.target;
+
+        // @ts-expect-error
+        const invalid: `json` | undefined = command.format;
+
+        expect([format, level, target, invalid]).to.have.length(4);
+    });
+
+    it(`should accept the listed values`, async () => {
+        await expect(runCli(makeCli(), [`export`, `--format`, `yaml`, `users`])).to.eventually.equal(`Running ExportCommand\n"yaml"\n"info"\n"users"\n`);
+        await expect(runCli(makeCli(), [`export`, `groups`])).to.eventually.equal(`Running ExportCommand\nundefined\n"info"\n"groups"\n`);
+    });
+
+    it(`should reject the other values`, async () => {
+        await expect(runCli(makeCli(), [`export`, `--format`, `xml`, `users`])).to.be.rejectedWith(`Invalid value for --format: expected one of "json", "table", "yaml" (got "xml")`);
+        await expect(runCli(makeCli(), [`export`, `roles`])).to.be.rejectedWith(`Invalid value for target: expected one of "users", "groups" (got "roles")`);
+    });
+
+    it(`should check the fallback values`, async () => {
+        expect(parseCli(makeCli(), [`export`, `users`], {env: {EXPORT_LEVEL: `debug`}})).to.contain({level: `debug`});
+        expect(() => parseCli(makeCli(), [`export`, `users`], {env: {EXPORT_LEVEL: `trace`}})).to.throw(`Invalid value for --level: expected one of "info", "debug" (got "trace")`);
+    });
+
+    it(`should list the choices in the usage`, async () => {
+        const cli = makeCli();
+
+        expect(cli.usage(ExportCommand, {detailed: true})).to.equal([
+            `$ mytool export <target>`,
+            ``,
+            `\u001b[1mOptions:\u001b[22m`,
+            ``,
+            `  --format #0    The output format (choices: json, table, yaml)`,
+            `  --level #0     (choices: info, debug) (env: EXPORT_LEVEL)`,
+            ``,
+        ].join(`\n`));
+    });
+
+    it(`should complete the choices`, async () => {
+        const cli = makeCli();
+
+        expect(await cli.completions([`mytool`, `export`, `--format`, ``], 3)).to.deep.equal([`json`, `table`, `yaml`]);
+        expect(await cli.completions([`mytool`, `export`, `g`], 2)).to.deep.equal([`groups`]);
+    });
+
+    it(`should expose the choices in the schema`, async () => {
+        const [{options, positionals}] = makeCli().schema().commands;
+
+        expect(options[0]).to.contain({type: `"json" | "table" | "yaml"`});
+        expect(options[0].choices).to.deep.equal([`json`, `table`, `yaml`]);
+        expect(positionals[0].choices).to.deep.equal([`users`, `groups`]);
+    });
+});
+
+describe(`Typed options`, () => {
+    class DeployCommand extends Command {
+        jobs = Command.Number(`--jobs`, 1, {integer: true, min: 1, max: 16});
+        ratio = Command.Number(`--ratio`, {description: `The ratio of the instances to update`});
+        timeout = Command.Duration(`--timeout`, {env: `DEPLOY_TIMEOUT`});
+        maxSize = Command.Size(`--max-size`);
+        data = Command.Json(`--data`, {validator: t.isOptional(t.isObject({name: t.isString()}))});
+
+        static paths = [[`deploy`]];
+
+        async execute() {
+            log(this, [`jobs`, `ratio`, `timeout`, `maxSize`, `data`]);
+        }
+    }
+
+    const makeCli = () => Cli.from([DeployCommand], {binaryName: `mytool`, enableColors: false});
+
+    it(`should type the values`, async () => {
+        const command = new DeployCommand();
+
+        const jobs: number = command.jobs;
+        const ratio: number | undefined = command.ratio;
+        const timeout: number | undefined = command.timeout;
+        const maxSize: number | undefined = command.maxSize;
+        const data: {name: string} | undefined = command.data;
+
+        expect([jobs, ratio, timeout, maxSize, data]).to.have.length(5);
+    });
+
+    it(`should parse the numbers`, async () => {
+        expect(parseCli(makeCli(), [`deploy`, `--jobs`, `4`, `--ratio=0.5`])).to.contain({jobs: 4, ratio: 0.5});
+        expect(parseCli(makeCli(), [`deploy`])).to.contain({jobs: 1, ratio: undefined});
+
+        expect(() => parseCli(makeCli(), [`deploy`, `--ratio`, `half`])).to.throw(`Invalid value for --ratio: expected a number (got "half")`);
+        expect(() => parseCli(makeCli(), [`deploy`, `--ratio=`])).to.throw(`Invalid value for --ratio: expected a number (got "")`);
+        expect(() => parseCli(makeCli(), [`deploy`, `--jobs`, `0x10`])).to.throw(`Invalid value for --jobs: expected an integer (got "0x10")`);
+        expect(() => parseCli(makeCli(), [`deploy`, `--jobs`, `0b1`])).to.throw(`Invalid value for --jobs: expected an integer (got "0b1")`);
+        expect(() => parseCli(makeCli(), [`deploy`, `--ratio`, `1e3`])).to.throw(`Invalid value for --ratio: expected a number (got "1e3")`);
+        expect(() => parseCli(makeCli(), [`deploy`, `--ratio`, ` 0.5 `])).to.throw(`Invalid value for --ratio: expected a number (got " 0.5 ")`);
+        expect(parseCli(makeCli(), [`deploy`, `--ratio=-.5`])).to.contain({ratio: -0.5});
+        expect(() => parseCli(makeCli(), [`deploy`, `--jobs`, `1.5`])).to.throw(`Invalid value for --jobs: expected an integer (got "1.5")`);
+        expect(() => parseCli(makeCli(), [`deploy`, `--jobs`, `0`])).to.throw(`Invalid value for --jobs: expected an integer greater than or equal to 1 (got "0")`);
+        expect(() => parseCli(makeCli(), [`deploy`, `--jobs`, `32`])).to.throw(`Invalid value for --jobs: expected an integer lower than or equal to 16 (got "32")`);
+    });
+
+    it(`should parse the durations`, async () => {
+        expect(parseCli(makeCli(), [`deploy`, `--timeout`, `30s`])).to.contain({timeout: 30000});
+        expect(parseCli(makeCli(), [`deploy`, `--timeout`, `1h30m`])).to.contain({timeout: 5400000});
+        expect(parseCli(makeCli(), [`deploy`, `--timeout`, `250ms`])).to.contain({timeout: 250});
+        expect(parseCli(makeCli(), [`deploy`, `--timeout`, `1.5d`])).to.contain({timeout: 129600000});
+
+        expect(() => parseCli(makeCli(), [`deploy`, `--timeout`, `30`])).to.throw(`Invalid value for --timeout: expected a duration (such as "30s" or "1h30m") (got "30")`);
+    });
+
+    it(`should parse the sizes`, async () => {
+        expect(parseCli(makeCli(), [`deploy`, `--max-size`, `10MB`])).to.contain({maxSize: 10000000});
+        expect(parseCli(makeCli(), [`deploy`, `--max-size`, `64KiB`])).to.contain({maxSize: 65536});
+        expect(parseCli(makeCli(), [`deploy`, `--max-size`, `1.5 gb`])).to.contain({maxSize: 1500000000});
+        expect(parseCli(makeCli(), [`deploy`, `--max-size`, `512`])).to.contain({maxSize: 512});
+
+        expect(() => parseCli(makeCli(), [`deploy`, `--max-size`, `10 apples`])).to.throw(`Invalid value for --max-size: expected a size (such as "512KB" or "10MiB") (got "10 apples")`);
+        expect(parseCli(makeCli(), [`deploy`, `--max-size`, `8.2MB`])).to.contain({maxSize: 8200000});
+        expect(() => parseCli(makeCli(), [`deploy`, `--max-size`, `1.5`])).to.throw(`Invalid value for --max-size: expected a whole number of bytes (got "1.5")`);
+        expect(() => parseCli(makeCli(), [`deploy`, `--max-size`, `0.0001KB`])).to.throw(`Invalid value for --max-size: expected a whole number of bytes (got "0.0001KB")`);
+    });
+
+    it(`should parse the JSON values`, async () => {
+        expect(parseCli(makeCli(), [`deploy`, `--data`, `{"name": "web"}`])).to.deep.include({data: {name: `web`}});
+
+        expect(() => parseCli(makeCli(), [`deploy`, `--data`, `{name}`])).to.throw(`Invalid value for --data: expected a JSON value (got "{name}")`);
+        expect(() => parseCli(makeCli(), [`deploy`, `--data`, `{}`])).to.throw(`Invalid option validation for data`);
+    });
+
+    it(`should parse the fallback values`, async () => {
+        expect(parseCli(makeCli(), [`deploy`], {env: {DEPLOY_TIMEOUT: `5m`}})).to.contain({timeout: 300000});
+        expect(() => parseCli(makeCli(), [`deploy`], {env: {DEPLOY_TIMEOUT: `soon`}})).to.throw(`Invalid value for the DEPLOY_TIMEOUT environment variable: expected a duration (such as "30s" or "1h30m") (got "soon")`);
+    });
+
+    it(`should show the type of the arguments in the usage`, async () => {
+        expect(makeCli().usage(DeployCommand)).to.equal(`$ mytool deploy [--jobs #int] [--ratio #number] [--timeout #duration] [--max-size #size] [--data #json]\n`);
+        expect(makeCli().usage(DeployCommand, {detailed: true})).to.contain(`  --ratio #number        The ratio of the instances to update\n  --timeout #duration    (env: DEPLOY_TIMEOUT)\n`);
+    });
+
+    it(`should expose the types in the schema`, async () => {
+        const [{options}] = makeCli().schema().commands;
+
+        expect(options.map(({type}) => type)).to.deep.equal([`number`, `number`, `number`, `number`, `unknown`]);
+        expect(options[0]).to.contain({default: 1});
+        expect(options[4]).to.contain({validated: true});
+    });
+});
+
+describe(`Map options`, () => {
+    class RunCommand extends Command {
+        env = Command.Map(`-e,--env`, {env: `RUN_ENV`});
+        ports = Command.Map(`-p,--port`, {validator: t.isNumber(), duplicates: `error`});
+
+        static paths = [[`run`]];
+        async execute() {}
+    }
+
+    const makeCli = (opts: Partial<CliOptions> = {}) => Cli.from([RunCommand], {binaryName: `mytool`, enableColors: false, ...opts});
+
+    it(`should type the values`, async () => {
+        const command = new RunCommand();
+
+        const env: Record<string, string> | undefined = command.env;
+        const ports: Record<string, number> | undefined = command.ports;
+
+        expect([env, ports]).to.have.length(2);
+    });
+
+    it(`should collect the pairs into a record`, async () => {
+        expect(parseCli(makeCli(), [`run`, `--env`, `FOO=bar`, `-e`, `BAZ=qux=quux`, `--env=EMPTY=`])).to.have.deep.property(`env`, {
+            FOO: `bar`,
+            BAZ: `qux=quux`,
+            EMPTY: ``,
+        });
+
+        expect(parseCli(makeCli(), [`run`])).to.contain({env: undefined, ports: undefined});
+    });
+
+    it(`should keep the last value of the duplicate keys by default`, async () => {
+        expect(parseCli(makeCli(), [`run`, `-e`, `FOO=bar`, `-e`, `FOO=baz`])).to.have.deep.property(`env`, {FOO: `baz`});
+    });
+
+    it(`should reject the duplicate keys if requested`, async () => {
+        expect(() => parseCli(makeCli(), [`run`, `-p`, `http=80`, `-p`, `http=8080`])).to.throw(`Invalid value for -p,--port: the http key is set multiple times`);
+    });
+
+    it(`should validate the values`, async () => {
+        expect(parseCli(makeCli(), [`run`, `-p`, `http=80`, `-p`, `https=443`])).to.have.deep.property(`ports`, {http: 80, https: 443});
+        expect(() => parseCli(makeCli(), [`run`, `-p`, `http=web`])).to.throw(`Invalid option validation for ports.http: expected a number (got "web")`);
+    });
+
+    it(`should reject the values that aren't pairs`, async () => {
+        expect(() => parseCli(makeCli(), [`run`, `-e`, `FOO`])).to.throw(`Invalid value for -e,--env: expected a KEY=VALUE pair (got "FOO")`);
+        expect(() => parseCli(makeCli(), [`run`, `-e`, `=bar`])).to.throw(`Invalid value for -e,--env: expected a KEY=VALUE pair (got "=bar")`);
+    });
+
+    it(`shouldn't let the keys change the prototype of the record`, async () => {
+        const {env} = parseCli(makeCli(), [`run`, `-e`, `__proto__=bar`]) as RunCommand;
+
+        expect(Object.getPrototypeOf(env)).to.equal(Object.prototype);
+        expect(Object.keys(env!)).to.deep.equal([`__proto__`]);
+    });
+
+    it(`should read the fallback values`, async () => {
+        expect(parseCli(makeCli(), [`run`], {env: {RUN_ENV: `FOO=bar`}})).to.have.deep.property(`env`, {FOO: `bar`});
+        expect(parseCli(makeCli(), [`run`, `-e`, `BAZ=qux`], {env: {RUN_ENV: `FOO=bar`}})).to.have.deep.property(`env`, {BAZ: `qux`});
+
+        const cli = makeCli({
+            configuration: [{load: () => ({origin: `/project/.mytoolrc`, values: {env: {FOO: `bar`, RETRIES: 3}, ports: [`http=80`]}})}],
+        });
+
+        expect(cli.process([`run`])).to.have.deep.property(`env`, {FOO: `bar`, RETRIES: `3`});
+        expect(cli.process([`run`])).to.have.deep.property(`ports`, {http: 80});
+    });
+
+    it(`should validate the raw values of the configuration records`, async () => {
+        const makeConfiguredCli = (ports: Record<string, unknown>) => makeCli({
+            configuration: [{load: () => ({origin: `/project/.mytoolrc`, values: {ports}})}],
+        });
+
+        expect(makeConfiguredCli({http: 80, https: `443`}).process([`run`])).to.have.deep.property(`ports`, {http: 80, https: 443});
+        expect(() => makeConfiguredCli({http: true}).process([`run`])).to.throw(`Invalid option validation for ports.http: expected a number (got true)`);
+    });
+
+    it(`should show the pairs in the usage`, async () => {
+        expect(makeCli().usage(RunCommand)).to.equal(`$ mytool run [-e,--env #key=value] [-p,--port #key=value]\n`);
+    });
+
+    it(`should expose the type of the records before their validation`, async () => {
+        const [{options}] = makeCli().schema().commands;
+
+        expect(options[0]).to.contain({type: `Record<string, string>`, validated: false});
+        expect(options[1]).to.contain({type: `Record<string, string>`, validated: true});
+    });
 });
@@ -1,5 +1,6 @@
 import {expect}                         from 'chai';
 import { HELP_COMMAND_INDEX } from '../sources/constants';
+import {AmbiguousSyntaxError, UnknownSyntaxError} from '../sources/errors';
 
 import {CliBuilderCallback, CliBuilder, NoLimits} from '../sources/core';
 
@@ -697,6 +698,42 @@ describe(`Core`, () => {
         }).to.throw(`Unsupported option name ("--foo")`);
     });
 
+    it(`should suggest similar option names when passing an unsupported option`, () => {
+        const cli = makeCli([
+            b => {
+                b.addOption({names: [`--frozen-lockfile`]});
+                b.addOption({names: [`--frozen-lockfile-hidden`], hidden: true});
+                b.addOption({names: [`--json`]});
+            },
+        ]);
+
+        expect(() => {
+            cli.process([`--frozen-lockfil`]);
+        }).to.throw(UnknownSyntaxError).with.property(`suggestions`).that.deep.equals([`--frozen-lockfile`]);
+    });
+
+    it(`should suggest similar paths when passing an unknown command`, () => {
+        const cli = makeCli([
+            b => {
+                b.addPath([`install`]);
+            },
+            b => {
+                b.addPath([`init`]);
+            },
+            b => {
+                b.addPath([`run`]);
+            },
+        ]);
+
+        expect(() => {
+            cli.process([`instal`]);
+        }).to.throw(UnknownSyntaxError).with.property(`suggestions`).that.deep.equals([`install`]);
+
+        expect(() => {
+            cli.process([`xyz`]);
+        }).to.throw(UnknownSyntaxError).with.property(`suggestions`).that.deep.equals([]);
+    });
+
     it(`should throw acceptable errors when passing extraneous arguments`, () => {
         const cli = makeCli([
             b => {
@@ -940,4 +977,136 @@ describe(`Core`, () => {
         const suggestions = cli.suggest([`foo`], false);
         expect([...suggestions]).to.deep.equal([[`--hello`]]);
     });
+
+    it(`should suggest option values from completion providers`, async () => {
+        const cli = makeCli([
+            b => {
+                b.addPath([`deploy`]);
+                b.addOption({names: [`-e`, `--env`], arity: 1, complete: () => [`production`, `staging`]});
+            },
+        ]);
+
+        expect(await cli.suggestWithValues([`deploy`, `--env`], false)).to.deep.equal([[`production`], [`staging`]]);
+        expect(await cli.suggestWithValues([`deploy`, `-e`], false)).to.deep.equal([[`production`], [`staging`]]);
+        expect(await cli.suggestWithValues([`deploy`], false)).to.deep.equal([[`--env`]]);
+    });
+
+    it(`should complete the last token with the values of the completion providers in partial mode`, async () => {
+        const cli = makeCli([
+            b => {
+                b.addPath([`deploy`]);
+                b.addOption({names: [`--env`], arity: 1, complete: () => [`production`, `staging`]});
+            },
+        ]);
+
+        expect(await cli.suggestWithValues([`deploy`, `--env`, `st`], true)).to.deep.equal([[``, `--env`], [`aging`]]);
+        expect(await cli.suggestWithValues([`deploy`, `--env`, `dev`], true)).to.deep.equal([[``, `--env`]]);
+    });
+
+    it(`should pass the partial token and state to completion providers`, async () => {
+        const cli = makeCli([
+            b => {
+                b.addPath([`cp`]);
+                b.addOption({names: [`--force`]});
+                b.addPositional({name: `source`, complete: (partial, state) => [`${partial}:${state.options.length}`]});
+                b.addPositional({name: `destination`, complete: async partial => [`${partial}-dest`]});
+            },
+        ]);
+
+        expect(await cli.suggestWithValues([`cp`, `--force`, `foo`], true)).to.deep.equal([[`:1`]]);
+        expect(await cli.suggestWithValues([`cp`, `src`, `foo`], true)).to.deep.equal([[``, `--force`], [`-dest`]]);
+    });
+
+    it(`should keep track of the positional arguments in declaration order`, () => {
+        const cli = new CliBuilder<{}>();
+
+        const builder = cli.command();
+        builder.addPositional({name: `source`, description: `The file to copy`});
+        builder.addPositional({name: `mode`, required: false});
+
+        const proxy = cli.command();
+        proxy.addPositional({name: `script`});
+        proxy.addProxy({required: 1, description: `The arguments`});
+
+        expect(builder.positionals).to.deep.equal([
+            {name: `source`, kind: `required`, description: `The file to copy`},
+            {name: `mode`, kind: `optional`, description: undefined},
+        ]);
+
+        expect(proxy.positionals).to.deep.equal([
+            {name: `script`, kind: `required`, description: undefined},
+            {name: `arg`, kind: `proxy`, description: `The arguments`, required: 1},
+        ]);
+
+        expect(proxy.arity).to.deep.equal({leading: [`script`, `arg`], extra: NoLimits, trailing: [], proxy: true});
+    });
+
+    it(`should format the machine as a Graphviz graph`, () => {
+        const cli = CliBuilder.build<{}>([
+            b => {
+                b.setContext({});
+                b.addPath([`install`]);
+            },
+            b => {
+                b.setContext({});
+                b.addPath([`remove`]);
+                b.addPositional({name: `name`});
+            },
+        ], {binaryName: `mytool`});
+
+        const dot = cli.dot();
+
+        expect(dot).to.match(/^digraph machine \{\n/);
+        expect(dot).to.contain(`  0 [label="0\\ninitial"];\n`);
+        expect(dot).to.contain(`  1 [label="1\\nsuccess", shape=doublecircle];\n`);
+        expect(dot).to.contain(`\\n#0 mytool install"];\n`);
+        expect(dot).to.contain(`\\n#1 mytool remove"];\n`);
+        expect(dot).to.contain(` [label="\\"install\\" / pushPath"];\n`);
+        expect(dot).to.contain(` [label="isNotOptionLike(1, \\"name\\") / pushPositional"];\n`);
+        expect(dot).to.contain(` [label="<end> / setSelectedIndex(1)"];\n`);
+    });
+
+    it(`should restrict the graph to the nodes visited by an input`, () => {
+        const cli = CliBuilder.build<{}>([
+            b => {
+                b.setContext({});
+                b.addPath([`install`]);
+            },
+            b => {
+                b.setContext({});
+                b.addPath([`remove`]);
+                b.addPositional({name: `name`});
+            },
+        ], {binaryName: `mytool`});
+
+        const dot = cli.dot({input: [`remove`, `foo`]});
+        expect(dot).to.contain(`#1 mytool remove`);
+        expect(dot).to.contain(`setSelectedIndex(1)`);
+        expect(dot).not.to.contain(`"install" / pushPath`);
+        expect(dot).not.to.contain(`nerrored`);
+
+        // The nodes visited before the failure are kept
+        const failing = cli.dot({input: [`remove`, `foo`, `bar`]});
+        expect(failing).to.contain(`isNotOptionLike(1, \\"name\\") / pushPositional`);
+        expect(failing).to.contain(`nerrored`);
+    });
+
+    it(`should export the graph of the ambiguous inputs`, () => {
+        const cli = CliBuilder.build<{}>([
+            b => {
+                b.setContext({});
+                b.addPath([`install`]);
+            },
+            b => {
+                b.setContext({});
+                b.addPath([`install`]);
+            },
+        ], {binaryName: `mytool`});
+
+        expect(() => cli.process([`install`])).to.throw(AmbiguousSyntaxError);
+
+        const dot = cli.dot({input: [`install`]});
+        expect(dot).to.contain(`setSelectedIndex(0)`);
+        expect(dot).to.contain(`setSelectedIndex(1)`);
+    });
 });
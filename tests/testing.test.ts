@@ -0,0 +1,141 @@
+import {expect}                                                                            from 'chai';
+import {PassThrough}                                                                       from 'stream';
+
+import {BaseContext, Cli, Command, expectAmbiguousSyntax, expectParseError, expectUnknownSyntax, parseCli, runCli} from '../sources/advanced';
+
+describe(`Testing`, () => {
+    class GreetCommand extends Command {
+        name = Command.String(`--name`, {env: `GREET_NAME`});
+        loud = Command.Boolean(`--loud`);
+
+        static paths = [[`greet`]];
+
+        async execute() {
+            const greeting = `Hello ${this.name ?? `world`}`;
+            this.context.stdout.write(`${this.loud ? greeting.toUpperCase() : greeting}\n`);
+        }
+    }
+
+    class FailCommand extends Command {
+        static paths = [[`fail`]];
+
+        async execute() {
+            this.context.stderr.write(`Something went wrong\n`);
+            return 42;
+        }
+    }
+
+    class EchoCommand extends Command {
+        static paths = [[`echo`]];
+
+        async execute() {
+            for await (const chunk of this.context.stdin) {
+                this.context.stdout.write(chunk);
+            }
+        }
+    }
+
+    const makeCli = () => Cli.from([GreetCommand, FailCommand, EchoCommand], {binaryName: `mytool`, enableColors: false});
+
+    it(`should capture the output of the commands`, async () => {
+        expect(await runCli(makeCli(), [`greet`, `--loud`])).to.deep.equal({exitCode: 0, stdout: `HELLO WORLD\n`, stderr: ``});
+        expect(await runCli(makeCli(), [`fail`])).to.deep.equal({exitCode: 42, stdout: ``, stderr: `Something went wrong\n`});
+    });
+
+    it(`should capture the errors of the commands`, async () => {
+        const {exitCode, stderr} = await runCli(makeCli(), [`greet`, `--nmae`, `foo`]);
+
+        expect(exitCode).to.equal(1);
+        expect(stderr).to.contain(`Unsupported option name ("--nmae")`);
+    });
+
+    it(`should provide the input and the environment`, async () => {
+        expect(await runCli(makeCli(), [`echo`], {stdin: `foo\nbar\n`})).to.contain({stdout: `foo\nbar\n`});
+        expect(await runCli(makeCli(), [`echo`])).to.contain({stdout: ``});
+
+        expect(await runCli(makeCli(), [`greet`], {env: {GREET_NAME: `Ada`}})).to.contain({stdout: `Hello Ada\n`});
+    });
+
+    it(`shouldn't read the environment of the process by default`, async () => {
+        process.env.GREET_NAME = `Grace`;
+
+        try {
+            expect(await runCli(makeCli(), [`greet`])).to.contain({stdout: `Hello world\n`});
+        } finally {
+            delete process.env.GREET_NAME;
+        }
+    });
+
+    it(`should accept custom contexts`, async () => {
+        type Context = BaseContext & {greeting: string};
+        class ContextCommand extends Command<Context> {
+            async execute() {
+                this.context.stdout.write(`${this.context.greeting}\n`);
+            }
+        }
+
+        const cli = Cli.from<Context>([ContextCommand]);
+        const stdin = new PassThrough();
+        stdin.end();
+
+        expect(await runCli(cli, [], {stdin, context: {greeting: `Howdy`}})).to.contain({stdout: `Howdy\n`});
+        expect(parseCli(cli, [], {context: {greeting: `Howdy`}})).to.be.instanceOf(ContextCommand);
+
+        // The required fields of the custom context can't be left out
+        // @ts-expect-error
+        expect(await runCli(cli, [], {stdin})).to.contain({stdout: `undefined\n`});
+        // @ts-expect-error
+        expect(parseCli(cli, [])).to.be.instanceOf(ContextCommand);
+    });
+
+    it(`should only accept the standard streams through their own options`, async () => {
+        class CwdCommand extends Command {
+            async execute() {
+                this.context.stdout.write(`${this.context.cwd}\n`);
+            }
+        }
+
+        const cli = Cli.from<BaseContext>([CwdCommand]);
+
+        expect(await runCli(cli, [], {context: {cwd: `/projects/foo`}})).to.contain({stdout: `/projects/foo\n`});
+
+        // @ts-expect-error
+        expect(await runCli(cli, [], {context: {stdout: new PassThrough()}})).to.contain({stdout: `undefined\n`});
+    });
+
+    it(`should parse the command lines without executing them`, async () => {
+        const command = parseCli(makeCli(), [`greet`, `--name`, `Ada`]);
+
+        expect(command).to.be.instanceOf(GreetCommand);
+        expect(command).to.contain({name: `Ada`, loud: undefined});
+
+        expect(parseCli(makeCli(), [`greet`], {env: {GREET_NAME: `Grace`}})).to.contain({name: `Grace`});
+    });
+
+    it(`should return the parse errors`, async () => {
+        const error = expectUnknownSyntax(makeCli(), [`gret`]);
+
+        expect(error.suggestions).to.deep.equal([`greet`]);
+        expect(error.candidates.map(({usage}) => usage)).to.include(`mytool greet [--name #0] [--loud]`);
+
+        expect(expectParseError(makeCli(), [`greet`, `--name`])).to.be.instanceOf(Error);
+        expect(() => expectParseError(makeCli(), [`greet`])).to.throw(`Expected ["greet"] to be rejected, but it got parsed successfully`);
+    });
+
+    it(`should return the ambiguity errors`, async () => {
+        class CommandA extends Command {
+            static paths = [[`foo`]];
+            async execute() {}
+        }
+
+        class CommandB extends Command {
+            static paths = [[`foo`]];
+            async execute() {}
+        }
+
+        const cli = Cli.from([CommandA, CommandB], {binaryName: `mytool`});
+
+        expect(expectAmbiguousSyntax(cli, [`foo`]).usages).to.deep.equal([`mytool foo`, `mytool foo`]);
+        expect(() => expectAmbiguousSyntax(cli, [`bar`])).to.throw(`Expected ["bar"] to be rejected with an AmbiguousSyntaxError, got UnknownSyntaxError`);
+    });
+});